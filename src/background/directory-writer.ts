@@ -0,0 +1,131 @@
+import type { ConflictPolicy } from '../types/messages';
+import { directoryPermission, loadDirectoryHandle } from '../utils/directory-handle';
+import { emitLog, getSettings } from './queue-coordinator';
+
+/** Attempts to find a free "name (n).ext" before giving up, like Chrome's uniquify */
+const MAX_UNIQUE_SUFFIX = 1000;
+
+export interface DirectoryWrite {
+  /** Saved path, starting with the output folder's name */
+  path: string;
+  /** Saved path inside the output folder, after conflict resolution (e.g. "x (1).mp3") */
+  relativePath: string;
+  /** The file already existed and the 'skip' policy kept it */
+  skipped: boolean;
+}
+
+/** Log the missing folder/permission once per outage instead of once per file */
+let unavailableWarned = false;
+
+/**
+ * Write the content of url (http(s) or data:) to path, relative and
+ * '/'-separated, inside the output folder chosen in the side panel.
+ * Resolves null when folder output is off or unusable, so the caller
+ * falls back to chrome.downloads; never rejects.
+ */
+export async function saveToDirectory(url: string, path: string): Promise<DirectoryWrite | null> {
+  const { outputDirectory } = getSettings();
+  if (!outputDirectory?.enabled) return null;
+
+  const root = await openOutputDirectory();
+  if (!root) return null;
+
+  try {
+    const result = await writeFile(root, path, url, outputDirectory.onConflict);
+    return { path: `${root.name}/${result.path}`, relativePath: result.path, skipped: result.skipped };
+  } catch (e) {
+    emitLog('warn', `Could not write ${path.split('/').pop()} to "${root.name}" (${(e as Error).message}) — saving to Downloads instead`);
+    return null;
+  }
+}
+
+async function openOutputDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  let handle: FileSystemDirectoryHandle | null;
+  let permission: PermissionState = 'denied';
+  try {
+    handle = await loadDirectoryHandle();
+    if (handle) permission = await directoryPermission(handle);
+  } catch (e) {
+    warnUnavailable(`Output folder unavailable (${(e as Error).message})`);
+    return null;
+  }
+
+  if (!handle) {
+    warnUnavailable('No output folder chosen');
+    return null;
+  }
+  // The service worker cannot show the permission prompt; the side panel asks again on Start or from Settings
+  if (permission !== 'granted') {
+    warnUnavailable(`Access to "${handle.name}" must be granted again in Settings → Output Folder`);
+    return null;
+  }
+
+  unavailableWarned = false;
+  return handle;
+}
+
+function warnUnavailable(reason: string): void {
+  if (unavailableWarned) return;
+  unavailableWarned = true;
+  emitLog('warn', `${reason} — saving to Downloads instead`);
+}
+
+async function writeFile(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  url: string,
+  onConflict: ConflictPolicy,
+): Promise<{ path: string; skipped: boolean }> {
+  const segments = path.split('/').filter(Boolean);
+  const requestedName = segments.pop();
+  if (!requestedName) throw new Error('Empty file name');
+
+  let dir = root;
+  for (const segment of segments) {
+    dir = await dir.getDirectoryHandle(segment, { create: true });
+  }
+
+  const name = await resolveName(dir, requestedName, onConflict);
+  if (!name) return { path: [...segments, requestedName].join('/'), skipped: true };
+
+  // Fetched only once the name is settled, so skipped files cost no transfer
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const blob = await response.blob();
+
+  const file = await dir.getFileHandle(name, { create: true });
+  const writable = await file.createWritable();
+  try {
+    await writable.write(blob);
+    await writable.close();
+  } catch (e) {
+    await writable.abort().catch(() => { });
+    throw e;
+  }
+  return { path: [...segments, name].join('/'), skipped: false };
+}
+
+/** Name to write under, or null when the file exists and should be kept */
+async function resolveName(dir: FileSystemDirectoryHandle, name: string, onConflict: ConflictPolicy): Promise<string | null> {
+  if (onConflict === 'overwrite' || !(await fileExists(dir, name))) return name;
+  if (onConflict === 'skip') return null;
+
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  for (let n = 1; n <= MAX_UNIQUE_SUFFIX; n++) {
+    const candidate = `${base} (${n})${ext}`;
+    if (!(await fileExists(dir, candidate))) return candidate;
+  }
+  throw new Error(`No free name for ${name}`);
+}
+
+async function fileExists(dir: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+  try {
+    await dir.getFileHandle(name);
+    return true;
+  } catch (e) {
+    if ((e as DOMException).name === 'NotFoundError') return false;
+    throw e;
+  }
+}
@@ -1,21 +1,221 @@
-import { emitLog } from './queue-coordinator';
+import { DOWNLOAD_CONFLICT_ACTION, MAX_DOWNLOAD_RETRIES } from '../config/constants';
+import type { ClipFile, DownloadFormat, Job, JobClip } from '../types/job';
+import { emitLog, findClipByDownloadId, updateClip } from './queue-coordinator';
+
+/** How long to wait for Chrome to report a download's final file name */
+const FINAL_FILENAME_TIMEOUT = 10_000;
+
+/** In-progress chrome.downloads IDs, keyed by the job that started them */
+const jobDownloads = new Map<string, Set<number>>();
 
 /**
- * Monitor chrome.downloads for completion/failure and log results.
+ * Monitor chrome.downloads and report each file back to its job and clip:
+ * completed files mark the clip downloaded, interrupted ones are retried.
  */
 export function initDownloadManager(): void {
   chrome.downloads.onChanged.addListener((delta) => {
-    if (delta.state) {
-      if (delta.state.current === 'complete') {
-        chrome.downloads.search({ id: delta.id }, (items) => {
-          const item = items[0];
-          if (item) {
-            emitLog('info', `Downloaded: ${item.filename.split(/[/\\]/).pop()}`);
-          }
-        });
-      } else if (delta.state.current === 'interrupted') {
-        emitLog('error', `Download failed (id: ${delta.id})`);
-      }
+    if (delta.state?.current === 'complete') {
+      handleComplete(delta.id);
+    } else if (delta.state?.current === 'interrupted') {
+      handleInterrupted(delta.id, delta.error?.current);
+    }
+  });
+}
+
+/** Mark a clip's format saved by a direct write into the output folder; there is no download to wait for */
+export function recordDirectWrite(
+  jobId: string,
+  clip: { id: string; format: DownloadFormat; filePath: string; duration?: number },
+): void {
+  updateClip(
+    jobId,
+    clip.id,
+    clip.duration !== undefined && !isNaN(clip.duration) ? { duration: clip.duration } : {},
+    { [clip.format]: { status: 'downloaded', downloadId: undefined, downloadRetries: 0, filePath: clip.filePath } },
+  );
+}
+
+/**
+ * Associate a started download with its job so it can be cancelled with the job,
+ * and with its clip's format so the clip completes only when Chrome confirms the file.
+ */
+export function trackJobDownload(
+  jobId: string,
+  downloadId: number,
+  clip?: { id: string; format: DownloadFormat; filePath: string; duration?: number },
+): void {
+  trackDownloadId(jobId, downloadId);
+  if (!clip) return;
+
+  updateClip(
+    jobId,
+    clip.id,
+    clip.duration !== undefined && !isNaN(clip.duration) ? { duration: clip.duration } : {},
+    { [clip.format]: { status: 'downloading', downloadId, downloadRetries: 0, filePath: clip.filePath } },
+  );
+}
+
+/**
+ * Relative path a download ends up under: the requested folder with the file name Chrome
+ * settled on, which conflictAction 'uniquify' may have changed to "name (1).ext". Falls
+ * back to the requested path if Chrome does not report a name in time.
+ */
+export function finalDownloadPath(downloadId: number, requestedPath: string): Promise<string> {
+  const folder = requestedPath.includes('/') ? requestedPath.slice(0, requestedPath.lastIndexOf('/') + 1) : '';
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const settle = (absolutePath?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      chrome.downloads.onChanged.removeListener(listener);
+      const name = absolutePath?.split(/[/\\]/).pop();
+      resolve(name ? `${folder}${name}` : requestedPath);
+    };
+    const listener = (delta: chrome.downloads.DownloadDelta) => {
+      if (delta.id === downloadId && delta.filename?.current) settle(delta.filename.current);
+    };
+    const timer = setTimeout(() => settle(), FINAL_FILENAME_TIMEOUT);
+
+    chrome.downloads.onChanged.addListener(listener);
+    // The name may already be determined by the time we ask
+    chrome.downloads.search({ id: downloadId }, (items) => {
+      if (items?.[0]?.filename) settle(items[0].filename);
+    });
+  });
+}
+
+/** Cancel every download of a job that has not finished yet */
+export function cancelJobDownloads(jobId: string): void {
+  const ids = jobDownloads.get(jobId);
+  if (!ids) return;
+
+  jobDownloads.delete(jobId);
+  ids.forEach((downloadId) => {
+    chrome.downloads.cancel(downloadId, () => {
+      if (chrome.runtime.lastError) return; // Already finished or gone
+      emitLog('info', `Cancelled download ${downloadId} of aborted job`);
+    });
+  });
+}
+
+function handleComplete(downloadId: number): void {
+  untrackDownload(downloadId);
+  chrome.downloads.search({ id: downloadId }, (items) => {
+    const item = items[0];
+    if (!item) return;
+
+    const name = item.filename.split(/[/\\]/).pop();
+    const owner = findClipByDownloadId(downloadId);
+    if (!owner) {
+      emitLog('info', `Downloaded: ${name}`);
+      return;
     }
+
+    updateFile(owner.job, owner.clip, owner.format, { status: 'downloaded', filePath: item.filename });
+    emitLog('info', `Downloaded "${owner.job.input.title}" (${owner.clip.id.substring(0, 8)}, ${owner.format.toUpperCase()}): ${name}`);
   });
 }
+
+function handleInterrupted(downloadId: number, reason = 'UNKNOWN'): void {
+  const owner = findClipByDownloadId(downloadId);
+  if (!owner) {
+    untrackDownload(downloadId);
+    emitLog('error', `Download failed (id: ${downloadId}, ${reason})`);
+    return;
+  }
+
+  const { job, clip, format, file } = owner;
+  const label = `"${job.input.title}" (${clip.id.substring(0, 8)}, ${format.toUpperCase()})`;
+
+  // Cancelled by us when the job was aborted, or by the user in Chrome's download list
+  if (reason === 'USER_CANCELED') {
+    untrackDownload(downloadId);
+    updateFile(job, clip, format, { status: 'failed', error: 'Download cancelled' });
+    return;
+  }
+
+  const retries = file.downloadRetries ?? 0;
+  if (retries >= MAX_DOWNLOAD_RETRIES) {
+    untrackDownload(downloadId);
+    emitLog('error', `Download of ${label} interrupted (${reason}) — giving up after ${retries} retries`);
+    updateFile(job, clip, format, { status: 'failed', error: `Download interrupted (${reason})` });
+    return;
+  }
+
+  emitLog('warn', `Download of ${label} interrupted (${reason}) — retrying (${retries + 1}/${MAX_DOWNLOAD_RETRIES})`);
+  updateFile(job, clip, format, {
+    status: 'interrupted',
+    downloadRetries: retries + 1,
+    error: `Interrupted (${reason})`,
+  });
+
+  chrome.downloads.search({ id: downloadId }, (items) => {
+    const item = items[0];
+    if (item?.canResume) {
+      chrome.downloads.resume(downloadId, () => {
+        if (chrome.runtime.lastError) {
+          restartDownload(job, clip, format, file, downloadId, item);
+        } else {
+          updateFile(job, clip, format, { status: 'downloading' });
+        }
+      });
+    } else if (item) {
+      restartDownload(job, clip, format, file, downloadId, item);
+    } else {
+      untrackDownload(downloadId);
+      updateFile(job, clip, format, { status: 'failed', error: 'Interrupted download disappeared' });
+    }
+  });
+}
+
+/**
+ * Start the interrupted file again from scratch under the originally requested name.
+ * item.url is the URL the download was started with, so an ID3-tagged MP3 (a data: URL)
+ * is retried tagged rather than fetched again from the untagged source.
+ */
+function restartDownload(
+  job: Job,
+  clip: JobClip,
+  format: DownloadFormat,
+  file: ClipFile,
+  oldId: number,
+  item: chrome.downloads.DownloadItem,
+): void {
+  untrackDownload(oldId);
+  // filePath still holds the requested relative path; absolute paths are not accepted by download()
+  const filename = file.filePath && !/^([a-zA-Z]:)?[/\\]/.test(file.filePath)
+    ? file.filePath
+    : item.filename.split(/[/\\]/).pop();
+
+  chrome.downloads.download({ url: item.url, filename, saveAs: false, conflictAction: DOWNLOAD_CONFLICT_ACTION }, (newId) => {
+    if (chrome.runtime.lastError || newId === undefined) {
+      updateFile(job, clip, format, {
+        status: 'failed',
+        error: `Retry failed: ${chrome.runtime.lastError?.message ?? 'unknown error'}`,
+      });
+      return;
+    }
+    trackDownloadId(job.id, newId);
+    updateFile(job, clip, format, { status: 'downloading', downloadId: newId });
+  });
+}
+
+function updateFile(job: Job, clip: JobClip, format: DownloadFormat, updates: Partial<ClipFile>): void {
+  updateClip(job.id, clip.id, {}, { [format]: updates });
+}
+
+function trackDownloadId(jobId: string, downloadId: number): void {
+  const ids = jobDownloads.get(jobId) ?? new Set<number>();
+  ids.add(downloadId);
+  jobDownloads.set(jobId, ids);
+}
+
+function untrackDownload(downloadId: number): void {
+  for (const [jobId, ids] of jobDownloads) {
+    if (ids.delete(downloadId) && ids.size === 0) {
+      jobDownloads.delete(jobId);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MAX_ID3_AUDIO_BYTES } from '../config/constants';
+import { buildTag, CLIP_ID_DESCRIPTION, fetchTaggedMp3 } from './id3-tagger';
+
+const decoder = new TextDecoder();
+
+function synchsafe(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+}
+
+/** Frame IDs and bodies of a tag, in order */
+function readFrames(tag: Uint8Array): [string, Uint8Array][] {
+  const end = 10 + synchsafe(tag, 6);
+  const frames: [string, Uint8Array][] = [];
+  for (let offset = 10; offset < end;) {
+    const size = synchsafe(tag, offset + 4);
+    frames.push([decoder.decode(tag.subarray(offset, offset + 4)), tag.subarray(offset + 10, offset + 10 + size)]);
+    offset += 10 + size;
+  }
+  return frames;
+}
+
+describe('buildTag', () => {
+  it('writes an ID3v2.4 header whose size covers the frames', () => {
+    const tag = buildTag({ title: 'Song' });
+    expect(decoder.decode(tag.subarray(0, 3))).toBe('ID3');
+    expect([...tag.subarray(3, 6)]).toEqual([4, 0, 0]);
+    expect(synchsafe(tag, 6)).toBe(tag.length - 10);
+  });
+
+  it('writes only the frames it has data for, as UTF-8', () => {
+    const frames = readFrames(buildTag({ title: 'Café', artist: 'Me', lyrics: 'la la', clipId: 'abc' }));
+    expect(frames.map(([id]) => id)).toEqual(['TIT2', 'TPE1', 'USLT', 'TXXX']);
+    expect(decoder.decode(frames[0][1])).toBe('\u0003Café');
+    expect(decoder.decode(frames[2][1])).toBe('\u0003eng\u0000la la');
+    expect(decoder.decode(frames[3][1])).toBe(`\u0003${CLIP_ID_DESCRIPTION}\u0000abc`);
+  });
+
+  it('embeds the cover as the front picture', () => {
+    const frames = readFrames(buildTag({ title: 'Song' }, { mime: 'image/png', data: Uint8Array.of(1, 2, 3) }));
+    const [id, body] = frames[1];
+    expect(id).toBe('APIC');
+    expect([...body]).toEqual([3, ...new TextEncoder().encode('image/png'), 0, 3, 0, 1, 2, 3]);
+  });
+
+  it('keeps frame sizes synchsafe past 127 bytes', () => {
+    const lyrics = 'x'.repeat(300);
+    const [, [, body]] = readFrames(buildTag({ title: 'Song', lyrics }));
+    expect(body.length).toBe(5 + lyrics.length);
+  });
+});
+
+describe('fetchTaggedMp3', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function decodeDataUrl(url: string): Uint8Array {
+    expect(url.startsWith('data:audio/mpeg;base64,')).toBe(true);
+    return Uint8Array.from(atob(url.split(',')[1]), (c) => c.charCodeAt(0));
+  }
+
+  it('replaces an existing tag with the new one', async () => {
+    const oldTag = buildTag({ title: 'Old' });
+    const audio = Uint8Array.of(0xff, 0xfb, 0x90, 0x00);
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array([...oldTag, ...audio]))));
+
+    const bytes = decodeDataUrl(await fetchTaggedMp3('https://cdn/a.mp3', { title: 'New' }));
+    const tag = buildTag({ title: 'New' });
+    expect([...bytes]).toEqual([...tag, ...audio]);
+  });
+
+  it('tags the file without a cover when the cover cannot be fetched', async () => {
+    const audio = Uint8Array.of(0xff, 0xfb);
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url.endsWith('.jpg')) throw new TypeError('Failed to fetch');
+      return new Response(audio);
+    }));
+
+    const bytes = decodeDataUrl(await fetchTaggedMp3('https://cdn/a.mp3', { title: 'Song', coverUrl: 'https://cdn/a.jpg' }));
+    expect([...bytes]).toEqual([...buildTag({ title: 'Song' }), ...audio]);
+  });
+
+  it('refuses files over the size limit', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('x', {
+      headers: { 'content-length': String(MAX_ID3_AUDIO_BYTES + 1) },
+    })));
+    await expect(fetchTaggedMp3('https://cdn/a.mp3', { title: 'Song' })).rejects.toThrow(/larger than/);
+  });
+
+  it('rejects a failed fetch', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 403 })));
+    await expect(fetchTaggedMp3('https://cdn/a.mp3', { title: 'Song' })).rejects.toThrow('Audio fetch failed: 403');
+  });
+});
@@ -0,0 +1,142 @@
+import { ID3_FETCH_TIMEOUT, MAX_ID3_AUDIO_BYTES } from '../config/constants';
+
+/**
+ * Minimal ID3v2.4 writer for downloaded MP3s. Builds a tag from the job's
+ * metadata, replaces any tag the file already starts with and hands back a
+ * data: URL, since service workers cannot create blob URLs for chrome.downloads.
+ */
+
+export interface Id3Metadata {
+  title: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  lyrics?: string;
+  coverUrl?: string;
+  clipId?: string;
+}
+
+/** Description of the TXXX frame holding the Suno clip ID */
+export const CLIP_ID_DESCRIPTION = 'SUNO_CLIP_ID';
+
+const UTF8 = 0x03;
+const encoder = new TextEncoder();
+
+/**
+ * Fetch an MP3, embed the tag and return the tagged file as a data: URL. Rejects when
+ * the file is over MAX_ID3_AUDIO_BYTES or the fetches take longer than ID3_FETCH_TIMEOUT,
+ * so the caller can fall back to the untagged URL instead of holding up the download.
+ */
+export async function fetchTaggedMp3(url: string, metadata: Id3Metadata): Promise<string> {
+  const signal = AbortSignal.timeout(ID3_FETCH_TIMEOUT);
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw new Error(`Audio fetch failed: ${res.status}`);
+  const audio = await readLimited(res, MAX_ID3_AUDIO_BYTES);
+
+  let cover: { mime: string; data: Uint8Array } | undefined;
+  if (metadata.coverUrl) {
+    try {
+      const coverRes = await fetch(metadata.coverUrl, { signal });
+      if (coverRes.ok) {
+        cover = {
+          mime: coverRes.headers.get('content-type')?.split(';')[0] || 'image/jpeg',
+          data: await readLimited(coverRes, MAX_ID3_AUDIO_BYTES - audio.length),
+        };
+      }
+    } catch {
+      // Cover art is optional; tag the file without it
+    }
+  }
+
+  const tagged = concat([buildTag(metadata, cover), stripId3(audio)]);
+  return `data:audio/mpeg;base64,${toBase64(tagged)}`;
+}
+
+/** Response body, refused as soon as it is known to exceed maxBytes */
+async function readLimited(res: Response, maxBytes: number): Promise<Uint8Array> {
+  const tooLarge = () => new Error(`File is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+  if (Number(res.headers.get('content-length') ?? 0) > maxBytes) throw tooLarge();
+  if (!res.body) return new Uint8Array(await res.arrayBuffer());
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return concat(chunks);
+}
+
+/** Serialize an ID3v2.4 tag (header + frames, no padding) */
+export function buildTag(metadata: Id3Metadata, cover?: { mime: string; data: Uint8Array }): Uint8Array {
+  const frames: Uint8Array[] = [textFrame('TIT2', metadata.title)];
+  if (metadata.artist) frames.push(textFrame('TPE1', metadata.artist));
+  if (metadata.album) frames.push(textFrame('TALB', metadata.album));
+  if (metadata.genre) frames.push(textFrame('TCON', metadata.genre));
+  if (metadata.lyrics) {
+    // encoding, language, empty content descriptor, lyrics
+    frames.push(frame('USLT', concat([Uint8Array.of(UTF8), encoder.encode('eng'), Uint8Array.of(0), encoder.encode(metadata.lyrics)])));
+  }
+  if (cover) {
+    // encoding, MIME type, picture type 3 (front cover), empty description, image
+    frames.push(frame('APIC', concat([
+      Uint8Array.of(UTF8), encoder.encode(cover.mime), Uint8Array.of(0, 0x03, 0), cover.data,
+    ])));
+  }
+  if (metadata.clipId) {
+    frames.push(frame('TXXX', concat([
+      Uint8Array.of(UTF8), encoder.encode(CLIP_ID_DESCRIPTION), Uint8Array.of(0), encoder.encode(metadata.clipId),
+    ])));
+  }
+
+  const body = concat(frames);
+  const header = concat([encoder.encode('ID3'), Uint8Array.of(0x04, 0x00, 0x00), synchsafe(body.length)]);
+  return concat([header, body]);
+}
+
+/** Drop an existing ID3v2 tag at the start of the file so the new one is the only one */
+function stripId3(bytes: Uint8Array): Uint8Array {
+  if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return bytes;
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return bytes.subarray(10 + size + (hasFooter ? 10 : 0));
+}
+
+function textFrame(id: string, text: string): Uint8Array {
+  return frame(id, concat([Uint8Array.of(UTF8), encoder.encode(text)]));
+}
+
+function frame(id: string, data: Uint8Array): Uint8Array {
+  // v2.4 frame sizes are synchsafe; no frame flags
+  return concat([encoder.encode(id), synchsafe(data.length), Uint8Array.of(0, 0), data]);
+}
+
+function synchsafe(n: number): Uint8Array {
+  return Uint8Array.of((n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  // Chunked to stay under the argument limit of String.fromCharCode
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
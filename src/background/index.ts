@@ -1,4 +1,5 @@
-import type { PanelToBgMessage, ContentToBgMessage, ExecInPageMessage } from '../types/messages';
+import type { DownloadFormat, Job, JobClip } from '../types/job';
+import type { PanelToBgMessage, ContentToBgMessage, ExecInPageMessage, DownloadWavFileMessage, SaveSidecarMessage, Settings } from '../types/messages';
 import {
   addJobs,
   clearQueue,
@@ -7,23 +8,42 @@ import {
   restoreState,
   startQueue,
   stopQueue,
+  pauseQueue,
+  resumeQueue,
   updateSettings,
   manualRunJob,
   manualDownloadJob,
   checkPageWithRetry,
   addLibrarySongs,
-  fetchNotionJobs
+  fetchNotionJobs,
+  reorderJobs,
+  setJobPriority,
+  updateJobInput,
+  deleteJobs,
+  duplicateJob,
+  updateClip,
+  emitLog,
+  bulkJobAction
 } from './queue-coordinator';
-import { initDownloadManager } from './download-manager';
+import { finalDownloadPath, initDownloadManager, recordDirectWrite, trackJobDownload } from './download-manager';
+import { saveToDirectory } from './directory-writer';
+import { applySchedule, initScheduler, restoreSchedule } from './scheduler';
+import { renderFilename, renderFolder } from '../utils/download-path';
+import { fetchTaggedMp3 } from './id3-tagger';
+import { audioPathOf, rememberAudioPath, saveTextSidecar, writeSidecars } from './sidecars';
+import { DEFAULT_FILENAME_TEMPLATE, DEFAULT_FOLDER_TEMPLATE, DOWNLOAD_CONFLICT_ACTION } from '../config/constants';
 
 console.log('[Suno Batch Generator] Background service worker started');
 
-// Restore persisted state on startup
-restoreState();
+// Restore persisted state on startup, then pick the scheduled window back up
+restoreState().then(() => restoreSchedule());
 
 // Initialize download monitoring
 initDownloadManager();
 
+// Listen for scheduled start/pause alarms
+initScheduler();
+
 // Open side panel when extension icon is clicked
 chrome.action.onClicked.addListener((tab) => {
   if (tab.id !== undefined) {
@@ -48,11 +68,51 @@ chrome.runtime.onMessage.addListener(
         sendResponse({ ok: true });
         break;
 
+      case 'PAUSE_QUEUE':
+        pauseQueue();
+        sendResponse({ ok: true });
+        break;
+
+      case 'RESUME_QUEUE':
+        resumeQueue();
+        sendResponse({ ok: true });
+        break;
+
       case 'ADD_JOBS':
         addJobs(message.payload);
         sendResponse({ ok: true });
         break;
 
+      case 'REORDER_JOBS':
+        reorderJobs(message.payload.jobIds, message.payload.movedJobId);
+        sendResponse({ ok: true });
+        break;
+
+      case 'SET_JOB_PRIORITY':
+        setJobPriority(message.payload.jobId, message.payload.priority);
+        sendResponse({ ok: true });
+        break;
+
+      case 'UPDATE_JOB':
+        updateJobInput(message.payload.jobId, message.payload.input);
+        sendResponse({ ok: true });
+        break;
+
+      case 'DELETE_JOBS':
+        deleteJobs(message.payload.jobIds);
+        sendResponse({ ok: true });
+        break;
+
+      case 'DUPLICATE_JOB':
+        duplicateJob(message.payload.jobId);
+        sendResponse({ ok: true });
+        break;
+
+      case 'BULK_JOB_ACTION':
+        bulkJobAction(message.payload.action, message.payload.jobIds);
+        sendResponse({ ok: true });
+        break;
+
       case 'CLEAR_QUEUE':
         clearQueue();
         sendResponse({ ok: true });
@@ -64,6 +124,7 @@ chrome.runtime.onMessage.addListener(
 
       case 'UPDATE_SETTINGS':
         updateSettings(message.payload);
+        if (message.payload.schedule) applySchedule(getSettings().schedule);
         sendResponse({ ok: true });
         break;
 
@@ -94,6 +155,16 @@ chrome.runtime.onMessage.addListener(
         handleDownloadWavFile(message, sendResponse);
         return true; // async response
 
+      case 'SAVE_SIDECAR':
+        handleSaveSidecar(message);
+        sendResponse({ ack: true });
+        break;
+
+      case 'CLIP_PROGRESS':
+        updateClip(message.payload.jobId, message.payload.clipId, message.payload.updates, message.payload.files);
+        sendResponse({ ack: true });
+        break;
+
       case 'PROXY_API_REQUEST':
         handleProxyApiRequest(message, sendResponse);
         return true; // async response
@@ -118,8 +189,11 @@ chrome.runtime.onMessage.addListener(
         return true; // async return
 
       case 'GENERATE_VIA_API':
-        // Forward to active suno tab
-        handleDumpDom(sendResponse, 'GENERATE_VIA_API', message.payload);
+        // Forward to active suno tab, with the polling limit the queue uses
+        handleDumpDom(sendResponse, 'GENERATE_VIA_API', {
+          ...message.payload,
+          generationTimeout: getSettings().generationTimeout,
+        });
         return true;
 
       // Content script messages (JOB_PROGRESS, PAGE_STATUS, DOWNLOAD_READY)
@@ -442,73 +516,170 @@ function reactDiagnosticsInPage() {
 // DOWNLOAD_WAV_FILE: Handle actual file download
 // ─────────────────────────────────────────────
 
-function handleDownloadWavFile(
-  message: { type: string; url: string; filename: string; folder?: string; duration?: string },
+async function handleDownloadWavFile(
+  message: DownloadWavFileMessage,
   sendResponse: (response: any) => void,
 ) {
-  const settings = getSettings();
+  try {
+    const settings = getSettings();
+    const format = downloadFormatOf(message);
+    const finalFilename = buildDownloadPath(message, settings);
+    const url = await resolveDownloadUrl(message, settings, finalFilename);
+
+    if (message.duration) {
+      console.log(`[SBG] Saving song with duration: ${message.duration}`);
+      // We could persist this metadata if needed, for now just logging
+    }
+
+    const clipFile = message.clipId
+      ? { id: message.clipId, format, filePath: finalFilename, duration: message.duration ? Number(message.duration) : undefined }
+      : undefined;
+    // Sidecars share the name of the primary format's file only, so extra formats do not duplicate them
+    const isPrimary = !!message.clipId && format === (settings.downloadFormats[0] ?? 'mp3');
+    /** Write sidecars next to the audio under the name it was saved as (uniquify may have renamed it) */
+    const saveSidecars = (savedPath: Promise<string>) => {
+      if (!isPrimary || !message.clipId) return;
+      const clipId = message.clipId;
+      rememberAudioPath(clipId, savedPath);
+      savedPath.then((audioPath) => {
+        const { job, clip } = findDownloadJob(message);
+        writeSidecars(audioPath, settings, {
+          clipId,
+          title: job?.input.title ?? message.title ?? clipId,
+          job,
+          clip,
+        });
+      }).catch((e) => emitLog('error', `Could not save sidecars for clip ${clipId}: ${(e as Error).message}`));
+    };
+
+    // Straight into the chosen output folder when that is enabled and still permitted
+    const written = await saveToDirectory(url, finalFilename);
+    if (written) {
+      emitLog('info', written.skipped ? `Kept existing ${written.path}` : `Saved ${written.path}`);
+      if (message.jobId && clipFile) recordDirectWrite(message.jobId, { ...clipFile, filePath: written.path });
+      saveSidecars(Promise.resolve(written.relativePath));
+      sendResponse({ success: true, filename: written.path });
+      return;
+    }
 
-  // Base directory from settings (default: SunoMusic)
-  const baseDirRaw = settings.downloadPath || 'SunoMusic';
-  const baseDir = baseDirRaw.replace(/[<>:"/\\|?*]/g, '_');
-
-  // Job-specific subfolder (if provided)
-  let subDir = '';
-  if (message.folder) {
-    // Sanitize the folder name but allow multiple levels if needed? 
-    // For safety, let's just sanitize it as a single folder name for now to avoid breakout
-    // If user wants nested, they can use "_" or we can revisit.
-    // Actually, let's treat it as a single child folder for simplicity and safety.
-    subDir = message.folder.replace(/[<>:"/\\|?*]/g, '_');
+    chrome.downloads.download({
+      url,
+      filename: finalFilename, // Chrome handles subdirectory creation
+      saveAs: false, // Auto-save to default downloads folder
+      conflictAction: DOWNLOAD_CONFLICT_ACTION,
+    }, (downloadId) => {
+      if (chrome.runtime.lastError) {
+        console.error('[SBG] Download failed:', chrome.runtime.lastError);
+        sendResponse({
+          success: false,
+          error: chrome.runtime.lastError.message
+        });
+      } else {
+        console.log('[SBG] Download started:', downloadId);
+        // Completion, interruption and retries are handled by the download manager
+        if (message.jobId) trackJobDownload(message.jobId, downloadId, clipFile);
+        saveSidecars(finalDownloadPath(downloadId, finalFilename));
+        sendResponse({ success: true, downloadId, filename: finalFilename });
+      }
+    });
+  } catch (e) {
+    // Every path has to answer, or the content script waits on the message forever
+    emitLog('error', `Download of ${message.title ?? message.clipId ?? message.url} failed: ${(e as Error).message}`);
+    sendResponse({ success: false, error: (e as Error).message });
   }
+}
 
-  // Construct final path: Base/Sub/Filename
-  // If subDir is empty, just Base/Filename
-  const finalPath = subDir ? `${baseDir}/${subDir}` : baseDir;
+/** Save a page-generated sidecar under the same folder and name its clip's audio gets */
+function handleSaveSidecar(message: SaveSidecarMessage) {
+  const settings = getSettings();
+  const { jobId, clipId, title, folder, extension, mime, content } = message.payload;
+  const audioPath = buildDownloadPath({
+    type: 'DOWNLOAD_WAV_FILE',
+    url: '',
+    filename: `${clipId}.${settings.downloadFormats[0] ?? 'mp3'}`,
+    title,
+    folder,
+    jobId,
+    clipId,
+  }, settings);
+  audioPathOf(clipId, audioPath)
+    .then((savedPath) => saveTextSidecar(savedPath, extension, content, mime, jobId))
+    .catch((e) => emitLog('error', `Could not save .${extension} for clip ${clipId}: ${(e as Error).message}`));
+}
 
-  const finalFilename = `${finalPath}/${message.filename}`;
+/**
+ * URL to hand to chrome.downloads: for MP3s with tagging on, the file fetched
+ * and re-encoded with ID3 tags as a data: URL; otherwise (or if tagging fails)
+ * the original audio URL.
+ */
+async function resolveDownloadUrl(message: DownloadWavFileMessage, settings: Settings, filename: string): Promise<string> {
+  if (!settings.id3?.enabled || !filename.toLowerCase().endsWith('.mp3')) return message.url;
 
-  if (message.duration) {
-    console.log(`[SBG] Saving song with duration: ${message.duration}`);
-    // We could persist this metadata if needed, for now just logging
-  }
+  const { job, clip } = findDownloadJob(message);
+  const title = job?.input.title ?? message.title;
+  if (!title) return message.url;
 
-  chrome.downloads.download({
-    url: message.url,
-    filename: finalFilename, // Chrome handles subdirectory creation
-    saveAs: false, // Auto-save to default downloads folder
-  }, (downloadId) => {
-    if (chrome.runtime.lastError) {
-      console.error('[SBG] Download failed:', chrome.runtime.lastError);
-      sendResponse({
-        success: false,
-        error: chrome.runtime.lastError.message
-      });
-    } else {
-      console.log('[SBG] Download started:', downloadId);
-
-      // Monitor download completion
-      const completeListener = (delta: chrome.downloads.DownloadDelta) => {
-        if (delta.id === downloadId && delta.state?.current === 'complete') {
-          console.log('[SBG] Download completed!');
-          chrome.downloads.onChanged.removeListener(completeListener);
-
-          // Get file path
-          chrome.downloads.search({ id: downloadId }, (results) => {
-            if (results[0]) {
-              console.log('[SBG] File saved to:', results[0].filename);
-            }
-          });
-        } else if (delta.id === downloadId && delta.state?.current === 'interrupted') {
-          console.error('[SBG] Download interrupted');
-          chrome.downloads.onChanged.removeListener(completeListener);
-        }
-      };
+  try {
+    return await fetchTaggedMp3(message.url, {
+      title,
+      artist: settings.id3.artist || clip?.artist,
+      album: settings.id3.album || job?.input.downloadFolder?.split('/').pop(),
+      genre: job?.input.style,
+      lyrics: job?.input.instrumental ? undefined : job?.input.lyrics,
+      coverUrl: clip?.imageUrl,
+      clipId: message.clipId,
+    });
+  } catch (e) {
+    emitLog('warn', `Could not tag "${title}" (${(e as Error).message}); saving it untagged`);
+    return message.url;
+  }
+}
 
-      chrome.downloads.onChanged.addListener(completeListener);
-      sendResponse({ success: true, downloadId });
-    }
+/**
+ * Relative download path (folder + file name) from the folder and filename
+ * templates, using the queue job's fields when the download belongs to one.
+ */
+function buildDownloadPath(message: DownloadWavFileMessage, settings: Settings): string {
+  const format = downloadFormatOf(message);
+  const { job, jobIndex } = findDownloadJob(message);
+  const songIds = job?.songIds ?? [];
+  const clipIndex = message.clipId ? songIds.indexOf(message.clipId) : -1;
+  const title = job?.input.title ?? message.title ?? message.filename.replace(/\.(mp3|wav|mp4)$/i, '');
+  const style = job?.input.style ?? '';
+
+  const folder = renderFolder(settings.folderTemplate || DEFAULT_FOLDER_TEMPLATE, {
+    downloadPath: settings.downloadPath || 'SunoMusic',
+    folder: message.folder ?? '',
+    title,
+    style,
+    jobIndex: jobIndex + 1,
   });
+  const filename = renderFilename(settings.filenameTemplate || DEFAULT_FILENAME_TEMPLATE, {
+    title,
+    index: clipIndex >= 0 ? clipIndex + 1 : 1,
+    clipId: message.clipId ?? '',
+    style,
+    jobIndex: jobIndex + 1,
+    format,
+  }, songIds.length);
+
+  // Chrome handles subdirectory creation; an empty folder saves straight into Downloads
+  return folder ? `${folder}/${filename}` : filename;
+}
+
+/** Format of a download request; older senders only encode it in the filename's extension */
+function downloadFormatOf(message: DownloadWavFileMessage): DownloadFormat {
+  if (message.format) return message.format;
+  const ext = message.filename.split('.').pop()?.toLowerCase();
+  return ext === 'wav' || ext === 'mp4' ? ext : 'mp3';
+}
+
+/** The queue job (and its position) and clip a download request belongs to, if any */
+function findDownloadJob(message: DownloadWavFileMessage): { job?: Job; jobIndex: number; clip?: JobClip } {
+  const jobs = getState().jobs;
+  const jobIndex = message.jobId ? jobs.findIndex(j => j.id === message.jobId) : -1;
+  const job = jobIndex >= 0 ? jobs[jobIndex] : undefined;
+  return { job, jobIndex, clip: job?.clips?.find(c => c.id === message.clipId) };
 }
 
 // ─────────────────────────────────────────────
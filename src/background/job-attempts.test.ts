@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { Job, JobStatus } from '../types/job';
+import { recordAttempt } from './job-attempts';
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    input: { title: 'Song', style: 'pop', lyrics: 'la' },
+    status: 'pending',
+    retryCount: 0,
+    attempts: [],
+    priority: 0,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+/** Apply a sequence of status updates at the given times */
+function run(steps: [JobStatus, number, Partial<Job>?][], job = makeJob()): Job {
+  return steps.reduce((current, [status, now, extra]) => {
+    const updates = { status, ...extra };
+    return { ...current, ...updates, attempts: recordAttempt(current, updates, now) };
+  }, job);
+}
+
+describe('recordAttempt', () => {
+  it('opens an attempt on the first phase and times each phase', () => {
+    const job = run([
+      ['filling', 100],
+      ['creating', 150],
+      ['waiting', 200, { songIds: ['a', 'b'] }],
+      ['downloading', 900],
+      ['completed', 1000],
+    ]);
+
+    expect(job.attempts).toEqual([{
+      number: 1,
+      startedAt: 100,
+      endedAt: 1000,
+      outcome: 'completed',
+      songIds: ['a', 'b'],
+      phases: {
+        filling: { startedAt: 100, endedAt: 150 },
+        creating: { startedAt: 150, endedAt: 200 },
+        waiting: { startedAt: 200, endedAt: 900 },
+        downloading: { startedAt: 900, endedAt: 1000 },
+      },
+    }]);
+  });
+
+  it('records a failure sent back to pending as retried, and the next run as a new attempt', () => {
+    const job = run([
+      ['filling', 0],
+      ['pending', 10, { errorCode: 'selector-not-found', error: 'Could not find the lyrics box' }],
+      ['filling', 20],
+      ['failed', 30, { errorCode: 'moderation-rejected' }],
+    ]);
+
+    expect(job.attempts).toHaveLength(2);
+    expect(job.attempts[0]).toMatchObject({
+      number: 1,
+      outcome: 'retried',
+      errorCode: 'selector-not-found',
+      error: 'Could not find the lyrics box',
+    });
+    expect(job.attempts[1]).toMatchObject({ number: 2, startedAt: 20, endedAt: 30, outcome: 'failed', errorCode: 'moderation-rejected' });
+  });
+
+  it('ignores updates that do not change the status', () => {
+    const job = run([['filling', 0]]);
+    expect(recordAttempt(job, { status: 'filling' }, 50)).toEqual(job.attempts);
+  });
+
+  it('does not open an attempt for statuses outside the phases', () => {
+    expect(recordAttempt(makeJob(), { status: 'skipped' }, 0)).toEqual([]);
+  });
+});
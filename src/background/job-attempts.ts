@@ -0,0 +1,51 @@
+import type { AttemptPhase, Job, JobAttempt, JobStatus } from '../types/job';
+
+const PHASES: AttemptPhase[] = ['filling', 'creating', 'waiting', 'downloading'];
+
+/**
+ * Record a job update into its attempt history: entering a phase opens a
+ * timing for it (starting a new attempt when none is open), and leaving the
+ * active phases closes the attempt with its outcome.
+ */
+export function recordAttempt(job: Job, updates: Partial<Job>, now: number): JobAttempt[] {
+  const attempts = [...(job.attempts ?? [])];
+  let current = attempts.length > 0 && !attempts[attempts.length - 1].endedAt
+    ? { ...attempts[attempts.length - 1], phases: { ...attempts[attempts.length - 1].phases } }
+    : null;
+
+  const status = updates.status;
+  const statusChanged = !!status && status !== job.status;
+
+  if (statusChanged && isPhase(status)) {
+    if (!current) {
+      current = { number: attempts.length + 1, startedAt: now, phases: {} };
+      attempts.push(current);
+    }
+    closeOpenPhase(current, now);
+    current.phases[status] = { startedAt: now };
+  } else if (statusChanged && current && status && !isPhase(status)) {
+    closeOpenPhase(current, now);
+    current.endedAt = now;
+    current.outcome = status === 'pending' ? 'retried' : status;
+  }
+
+  if (current) {
+    if (updates.songIds?.length) current.songIds = updates.songIds;
+    if (updates.errorCode) current.errorCode = updates.errorCode;
+    if (updates.error) current.error = updates.error;
+    attempts[current.number - 1] = current;
+  }
+
+  return attempts;
+}
+
+function closeOpenPhase(attempt: JobAttempt, now: number): void {
+  for (const phase of PHASES) {
+    const timing = attempt.phases[phase];
+    if (timing && !timing.endedAt) attempt.phases[phase] = { ...timing, endedAt: now };
+  }
+}
+
+function isPhase(status: JobStatus | undefined): status is AttemptPhase {
+  return PHASES.includes(status as AttemptPhase);
+}
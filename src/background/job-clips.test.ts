@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { JobClip } from '../types/job';
+import { createClips, deriveJobStatus, mergeClip, summarizeFormats } from './job-clips';
+
+describe('createClips', () => {
+  it('starts every clip as generating', () => {
+    expect(createClips(['a', 'b'])).toEqual([
+      { id: 'a', status: 'generating' },
+      { id: 'b', status: 'generating' },
+    ]);
+  });
+});
+
+describe('mergeClip', () => {
+  it('adds a clip the job did not know yet', () => {
+    expect(mergeClip(createClips(['a']), 'b', { status: 'ready' })).toEqual([
+      { id: 'a', status: 'generating' },
+      { id: 'b', status: 'ready' },
+    ]);
+  });
+
+  it('drops the old error when a clip leaves failed', () => {
+    const failed: JobClip[] = [{ id: 'a', status: 'failed', error: 'boom', errorCode: 'download-failed' }];
+    expect(mergeClip(failed, 'a', { status: 'ready' })).toEqual([{ id: 'a', status: 'ready' }]);
+  });
+
+  it('derives the clip status from its files', () => {
+    let clips = mergeClip(createClips(['a']), 'a', {}, { mp3: { status: 'downloading' }, wav: {} });
+    expect(clips[0].status).toBe('downloading');
+    expect(clips[0].files?.wav).toEqual({ status: 'pending' });
+
+    clips = mergeClip(clips, 'a', {}, { mp3: { status: 'downloaded' }, wav: { status: 'interrupted' } });
+    expect(clips[0].status).toBe('interrupted');
+
+    clips = mergeClip(clips, 'a', {}, { wav: { status: 'downloaded', filePath: 'Suno/a.wav' } });
+    expect(clips[0]).toMatchObject({ status: 'downloaded', files: { mp3: { status: 'downloaded' }, wav: { status: 'downloaded', filePath: 'Suno/a.wav' } } });
+  });
+
+  it('fails the clip with every failed format named, ignoring skipped ones', () => {
+    const clips = mergeClip(createClips(['a']), 'a', {}, {
+      mp3: { status: 'downloaded' },
+      wav: { status: 'failed', error: 'conversion failed' },
+      mp4: { status: 'skipped', error: 'no video' },
+    });
+    expect(clips[0]).toMatchObject({ status: 'failed', error: 'WAV: conversion failed', errorCode: 'download-failed' });
+  });
+
+  it('fails a clip whose every format was skipped', () => {
+    const clips = mergeClip(createClips(['a']), 'a', {}, { mp4: { status: 'skipped', error: 'no video' } });
+    expect(clips[0]).toMatchObject({ status: 'failed', errorCode: 'download-failed' });
+  });
+
+  it('clears a file error once the file is retried', () => {
+    let clips = mergeClip(createClips(['a']), 'a', {}, { mp3: { status: 'failed', error: 'network' } });
+    clips = mergeClip(clips, 'a', {}, { mp3: { status: 'downloading' } });
+    expect(clips[0].files?.mp3).toEqual({ status: 'downloading' });
+    expect(clips[0].error).toBeUndefined();
+  });
+});
+
+describe('deriveJobStatus', () => {
+  const clip = (status: JobClip['status']): JobClip => ({ id: status, status });
+
+  it.each([
+    [[], null],
+    [[clip('downloaded'), clip('downloaded')], 'completed'],
+    [[clip('downloaded'), clip('failed')], 'failed'],
+    [[clip('generating'), clip('downloaded')], 'waiting'],
+    [[clip('generating'), clip('downloading')], 'waiting'],
+    [[clip('ready'), clip('downloaded')], 'downloading'],
+    [[clip('interrupted'), clip('failed')], 'downloading'],
+  ] as const)('%j → %s', (clips, expected) => {
+    expect(deriveJobStatus([...clips])).toBe(expected);
+  });
+});
+
+describe('summarizeFormats', () => {
+  it('counts saved files per format and names the first failure', () => {
+    const clips: JobClip[] = [
+      { id: 'a', status: 'failed', files: { mp3: { status: 'downloaded' }, wav: { status: 'failed', error: 'conversion failed' }, mp4: { status: 'skipped', error: 'no video' } } },
+      { id: 'b', status: 'downloaded', files: { mp3: { status: 'downloaded' }, wav: { status: 'downloaded' }, mp4: { status: 'skipped', error: 'no video' } } },
+    ];
+    expect(summarizeFormats(clips)).toBe('MP3 2/2, WAV 1/2 (conversion failed), MP4 no video');
+  });
+
+  it('is empty for clips without files', () => {
+    expect(summarizeFormats(createClips(['a']))).toBe('');
+  });
+});
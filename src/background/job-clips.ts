@@ -0,0 +1,87 @@
+import type { ClipFile, ClipStatus, DownloadFormat, JobClip, JobStatus } from '../types/job';
+
+type FileUpdates = Partial<Record<DownloadFormat, Partial<ClipFile>>>;
+
+/** Fresh clip entries for the song IDs returned by a Create click */
+export function createClips(songIds: string[]): JobClip[] {
+  return songIds.map((id) => ({ id, status: 'generating' }));
+}
+
+/**
+ * Apply updates to one clip, adding it when the job did not know it yet.
+ * Per-format file updates are merged into the clip's files and the clip's
+ * status is then derived from them.
+ */
+export function mergeClip(clips: JobClip[], clipId: string, updates: Partial<JobClip>, files?: FileUpdates): JobClip[] {
+  const existing = clips.find((c) => c.id === clipId) ?? { id: clipId, status: 'generating' as ClipStatus };
+  let next: JobClip = { ...existing, ...updates };
+
+  // Undefined fields do not survive messaging, so a clip leaving 'failed' drops its old error here
+  if (updates.status && updates.status !== 'failed' && !('error' in updates)) {
+    delete next.error;
+    delete next.errorCode;
+  }
+
+  if (files) {
+    const merged = { ...next.files };
+    for (const [format, fileUpdates] of Object.entries(files) as [DownloadFormat, Partial<ClipFile>][]) {
+      const file: ClipFile = { status: 'pending', ...merged[format], ...fileUpdates };
+      if (file.status !== 'failed' && file.status !== 'skipped' && !('error' in fileUpdates)) delete file.error;
+      merged[format] = file;
+    }
+    next = { ...next, files: merged, ...statusFromFiles(merged) };
+  }
+
+  return clips.some((c) => c.id === clipId)
+    ? clips.map((c) => (c.id === clipId ? next : c))
+    : [...clips, next];
+}
+
+/**
+ * Overall job status implied by its clips: completed once every clip is
+ * downloaded, failed once every clip is settled and at least one failed,
+ * otherwise the phase the least advanced clip is in.
+ */
+export function deriveJobStatus(clips: JobClip[]): JobStatus | null {
+  if (clips.length === 0) return null;
+
+  const settled = clips.every((c) => c.status === 'downloaded' || c.status === 'failed');
+  if (settled) {
+    return clips.some((c) => c.status === 'failed') ? 'failed' : 'completed';
+  }
+  if (clips.some((c) => c.status === 'generating')) return 'waiting';
+  return 'downloading';
+}
+
+/** Per-format outcome across a job's clips, e.g. "MP3 2/2, WAV 1/2 (conversion failed), MP4 no video" */
+export function summarizeFormats(clips: JobClip[]): string {
+  const formats = new Set<DownloadFormat>();
+  clips.forEach((c) => Object.keys(c.files ?? {}).forEach((f) => formats.add(f as DownloadFormat)));
+
+  return [...formats].map((format) => {
+    const files = clips.map((c) => c.files?.[format]).filter((f): f is ClipFile => !!f);
+    const saved = files.filter((f) => f.status === 'downloaded').length;
+    if (files.every((f) => f.status === 'skipped')) return `${format.toUpperCase()} ${files[0]?.error ?? 'skipped'}`;
+    const failure = files.find((f) => f.status === 'failed')?.error;
+    return `${format.toUpperCase()} ${saved}/${files.length}${failure ? ` (${failure})` : ''}`;
+  }).join(', ');
+}
+
+/** Clip status (and error) from its files; skipped formats count as neither success nor failure */
+function statusFromFiles(files: Partial<Record<DownloadFormat, ClipFile>>): Pick<JobClip, 'status' | 'error' | 'errorCode'> {
+  const entries = Object.entries(files) as [DownloadFormat, ClipFile][];
+  const cleared = { error: undefined, errorCode: undefined };
+  if (entries.some(([, f]) => f.status === 'pending' || f.status === 'downloading')) return { status: 'downloading', ...cleared };
+  if (entries.some(([, f]) => f.status === 'interrupted')) return { status: 'interrupted', ...cleared };
+
+  const failed = entries.filter(([, f]) => f.status === 'failed');
+  if (failed.length > 0) {
+    return {
+      status: 'failed',
+      error: failed.map(([format, f]) => `${format.toUpperCase()}: ${f.error ?? 'failed'}`).join('; '),
+      errorCode: 'download-failed',
+    };
+  }
+  if (entries.some(([, f]) => f.status === 'downloaded')) return { status: 'downloaded', ...cleared };
+  return { status: 'failed', error: 'No requested format is available for this clip', errorCode: 'download-failed' };
+}
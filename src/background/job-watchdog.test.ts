@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Settings } from '../types/messages';
+import { DOWNLOAD_PHASE_TIMEOUT, TRIGGER_PHASE_TIMEOUT, WATCHDOG_GRACE } from '../config/constants';
+import { createPhaseWatchdog, phaseTimeout } from './job-watchdog';
+
+const settings = { generationTimeout: 60_000 } as Settings;
+
+describe('phaseTimeout', () => {
+  it('gives trigger phases the trigger limit', () => {
+    expect(phaseTimeout('filling', settings)).toBe(TRIGGER_PHASE_TIMEOUT);
+    expect(phaseTimeout('creating', settings)).toBe(TRIGGER_PHASE_TIMEOUT);
+  });
+
+  it('gives waiting the generation timeout plus grace', () => {
+    expect(phaseTimeout('waiting', settings)).toBe(60_000 + WATCHDOG_GRACE);
+  });
+
+  it('gives downloading the download limit', () => {
+    expect(phaseTimeout('downloading', settings)).toBe(DOWNLOAD_PHASE_TIMEOUT);
+  });
+});
+
+describe('createPhaseWatchdog', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports a phase that outlives its timeout once', () => {
+    const onStall = vi.fn();
+    const watchdog = createPhaseWatchdog(settings, onStall);
+
+    watchdog.enter('filling');
+    vi.advanceTimersByTime(TRIGGER_PHASE_TIMEOUT);
+
+    expect(onStall).toHaveBeenCalledOnce();
+    expect(onStall).toHaveBeenCalledWith('filling', TRIGGER_PHASE_TIMEOUT);
+
+    // Stopped after stalling: later transitions arm nothing
+    watchdog.enter('waiting');
+    vi.advanceTimersByTime(phaseTimeout('waiting', settings));
+    expect(onStall).toHaveBeenCalledOnce();
+  });
+
+  it('restarts the timer on every phase transition', () => {
+    const onStall = vi.fn();
+    const watchdog = createPhaseWatchdog(settings, onStall);
+
+    watchdog.enter('filling');
+    vi.advanceTimersByTime(TRIGGER_PHASE_TIMEOUT - 1);
+    watchdog.enter('creating');
+    vi.advanceTimersByTime(TRIGGER_PHASE_TIMEOUT - 1);
+    expect(onStall).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onStall).toHaveBeenCalledWith('creating', TRIGGER_PHASE_TIMEOUT);
+  });
+
+  it('does not restart the timer when the same phase is reported again', () => {
+    const onStall = vi.fn();
+    const watchdog = createPhaseWatchdog(settings, onStall);
+
+    watchdog.enter('downloading');
+    vi.advanceTimersByTime(DOWNLOAD_PHASE_TIMEOUT - 1);
+    watchdog.enter('downloading');
+    vi.advanceTimersByTime(1);
+
+    expect(onStall).toHaveBeenCalledOnce();
+  });
+
+  it('ignores statuses that are not watched phases', () => {
+    const onStall = vi.fn();
+    const watchdog = createPhaseWatchdog(settings, onStall);
+
+    watchdog.enter('completed');
+    vi.advanceTimersByTime(DOWNLOAD_PHASE_TIMEOUT * 10);
+
+    expect(onStall).not.toHaveBeenCalled();
+  });
+
+  it('never fires after stop()', () => {
+    const onStall = vi.fn();
+    const watchdog = createPhaseWatchdog(settings, onStall);
+
+    watchdog.enter('waiting');
+    watchdog.stop();
+    vi.advanceTimersByTime(phaseTimeout('waiting', settings));
+
+    expect(onStall).not.toHaveBeenCalled();
+  });
+});
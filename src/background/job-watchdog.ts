@@ -0,0 +1,60 @@
+import type { JobStatus } from '../types/job';
+import type { Settings } from '../types/messages';
+import { DOWNLOAD_PHASE_TIMEOUT, TRIGGER_PHASE_TIMEOUT, WATCHDOG_GRACE } from '../config/constants';
+
+export type WatchedPhase = 'filling' | 'creating' | 'waiting' | 'downloading';
+
+export interface PhaseWatchdog {
+  /** Restart the timer for the phase the job just entered (no-op for other statuses) */
+  enter(status: JobStatus): void;
+  stop(): void;
+}
+
+/** Max time a job may stay in a phase before it is considered stalled */
+export function phaseTimeout(phase: WatchedPhase, settings: Settings): number {
+  switch (phase) {
+    case 'filling':
+    case 'creating':
+      return TRIGGER_PHASE_TIMEOUT;
+    case 'waiting':
+      return settings.generationTimeout + WATCHDOG_GRACE;
+    case 'downloading':
+      return DOWNLOAD_PHASE_TIMEOUT;
+  }
+}
+
+/**
+ * Per-phase watchdog for a job. Every phase transition restarts the timer;
+ * onStall fires once if a phase outlives its timeout.
+ */
+export function createPhaseWatchdog(
+  settings: Settings,
+  onStall: (phase: WatchedPhase, timeoutMs: number) => void,
+): PhaseWatchdog {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let currentPhase: WatchedPhase | null = null;
+  let stopped = false;
+
+  const stop = () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    enter(status) {
+      if (stopped || status === currentPhase) return;
+      if (!['filling', 'creating', 'waiting', 'downloading'].includes(status)) return;
+
+      const phase = status as WatchedPhase;
+      const timeoutMs = phaseTimeout(phase, settings);
+      currentPhase = phase;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        stop();
+        onStall(phase, timeoutMs);
+      }, timeoutMs);
+    },
+    stop,
+  };
+}
@@ -118,7 +118,8 @@ export async function updateNotionJobStatus(
     let notionStatusValue = '';
     switch (status) {
         case 'completed': notionStatusValue = 'Done'; break;
-        case 'failed': notionStatusValue = 'Error'; break;
+        case 'failed':
+        case 'timedOut': notionStatusValue = 'Error'; break;
         case 'skipped': notionStatusValue = 'Skipped'; break;
         default: return;
     }
@@ -1,18 +1,31 @@
-import type { Job, QueueState, LibrarySong } from '../types/job';
-import type { SongInput, Settings, LogEntry, QueueStateUpdate, JobProgressMessage } from '../types/messages';
+import type { ClipFile, DownloadFormat, Job, JobClip, JobErrorCode, QueueState, LibrarySong } from '../types/job';
+import type { SongInput, Settings, LogEntry, QueueStateUpdate, JobProgressMessage, BulkJobAction } from '../types/messages';
 import {
   DEFAULT_DELAY_BETWEEN_SONGS,
   DEFAULT_GENERATION_TIMEOUT,
   DEFAULT_MAX_RETRIES,
+  DEFAULT_MAX_CONCURRENT_JOBS,
   STORAGE_KEY_QUEUE,
   STORAGE_KEY_SETTINGS,
-  DEFAULT_DOWNLOAD_FORMAT,
+  DEFAULT_DOWNLOAD_FORMATS,
+  DEFAULT_FILENAME_TEMPLATE,
+  DEFAULT_FOLDER_TEMPLATE,
+  DEFAULT_ID3_SETTINGS,
+  DEFAULT_SIDECAR_SETTINGS,
+  DEFAULT_OUTPUT_DIRECTORY_SETTINGS,
+  DEFAULT_SCHEDULE,
 } from '../config/constants';
 import { fetchPendingNotionJobs, updateNotionJobStatus } from './notion-api';
+import { cancelJobDownloads } from './download-manager';
+import { createPhaseWatchdog, type WatchedPhase } from './job-watchdog';
+import { RETRY_POLICIES, classifyError, retryDelayMs } from './retry-policy';
+import { recordAttempt } from './job-attempts';
+import { createClips, deriveJobStatus, mergeClip, summarizeFormats } from './job-clips';
 
 let state: QueueState = {
   jobs: [],
   running: false,
+  paused: false,
   activeJobIds: [],
   library: [],
 };
@@ -21,13 +34,50 @@ let settings: Settings = {
   delayBetweenSongs: DEFAULT_DELAY_BETWEEN_SONGS,
   generationTimeout: DEFAULT_GENERATION_TIMEOUT,
   maxRetries: DEFAULT_MAX_RETRIES,
+  maxConcurrentJobs: DEFAULT_MAX_CONCURRENT_JOBS,
   downloadPath: 'SunoMusic', // Default subdirectory
-  downloadFormat: DEFAULT_DOWNLOAD_FORMAT,
+  downloadFormats: DEFAULT_DOWNLOAD_FORMATS,
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  folderTemplate: DEFAULT_FOLDER_TEMPLATE,
+  id3: DEFAULT_ID3_SETTINGS,
+  sidecars: DEFAULT_SIDECAR_SETTINGS,
+  outputDirectory: DEFAULT_OUTPUT_DIRECTORY_SETTINGS,
+  schedule: DEFAULT_SCHEDULE,
 };
 
 let loopActive = false;
+let loopTask: Promise<void> | null = null;
 let activeTabId: number | null = null;
 
+/** Monitor promises of jobs occupying a scheduler slot, keyed by job ID */
+const inFlight = new Map<string, Promise<boolean>>();
+
+/**
+ * Jobs that already have clip IDs and need MONITOR_JOB (re-)issued: restored after
+ * a service worker restart, or retried after the watchdog caught a stalled monitor.
+ */
+const orphanedJobIds = new Set<string>();
+
+/** Callbacks that settle the trigger/monitor promises of a job when it is aborted */
+const abortHandlers = new Map<string, Set<() => void>>();
+
+/** Callbacks run whenever a clip of the job changes (monitors waiting for downloads to finish) */
+const clipHandlers = new Map<string, Set<() => void>>();
+
+/** Whether the queue was running (not paused) when the service worker stopped; restored state always starts stopped */
+let runInterrupted = false;
+
+let resolveRestored: () => void = () => {};
+
+/**
+ * Settles once restoreState() has loaded the persisted queue and settings. Events that
+ * wake a stopped service worker (alarms) must await it before reading state or settings,
+ * or they see the defaults and may write them back over the user's.
+ */
+export const stateRestored = new Promise<void>((resolve) => {
+  resolveRestored = resolve;
+});
+
 // ---- State management ----
 
 export function getState(): QueueState {
@@ -38,12 +88,27 @@ export function getSettings(): Settings {
   return settings;
 }
 
+/** IDs as `<timestamp>-<n>`, counting n past any job already created in the same millisecond */
+function newJobIds(count: number): string[] {
+  const stamp = Date.now();
+  const taken = new Set(state.jobs.map(j => j.id));
+  const ids: string[] = [];
+  for (let n = 0; ids.length < count; n++) {
+    const id = `${stamp}-${n}`;
+    if (!taken.has(id)) ids.push(id);
+  }
+  return ids;
+}
+
 export function addJobs(inputs: SongInput[]): void {
+  const ids = newJobIds(inputs.length);
   const newJobs: Job[] = inputs.map((input, i) => ({
-    id: `${Date.now()}-${i}`,
+    id: ids[i],
     input,
     status: 'pending',
     retryCount: 0,
+    priority: 0,
+    attempts: [],
     createdAt: Date.now(),
     updatedAt: Date.now(),
   }));
@@ -55,13 +120,160 @@ export function addJobs(inputs: SongInput[]): void {
 }
 
 export function clearQueue(): void {
-  state = { jobs: [], running: false, activeJobIds: [], library: state.library };
+  // Paused in-flight jobs are still monitoring and downloading into their job entries
+  if (state.running || state.paused) {
+    emitLog('warn', 'Stop the queue before clearing it');
+    return;
+  }
+  state = { jobs: [], running: false, paused: false, activeJobIds: [], library: state.library };
   loopActive = false;
   broadcastState();
   persistState();
   emitLog('info', 'Queue cleared');
 }
 
+/** Edit the input of a job that is not currently running */
+export function updateJobInput(jobId: string, input: Partial<SongInput>): void {
+  const job = state.jobs.find(j => j.id === jobId);
+  if (!job) return;
+  if (isJobActive(job)) {
+    emitLog('warn', `Cannot edit "${job.input.title}" while it is running`);
+    return;
+  }
+
+  updateJob(jobId, { input: { ...job.input, ...input } });
+  emitLog('info', `Updated "${job.input.title}"`);
+}
+
+export function deleteJobs(jobIds: string[]): void {
+  const ids = new Set(jobIds);
+  const blocked = state.jobs.filter(j => ids.has(j.id) && isJobActive(j));
+  blocked.forEach(j => ids.delete(j.id));
+  if (blocked.length > 0) {
+    emitLog('warn', `Skipped deleting ${blocked.length} running job(s): ${blocked.map(j => j.input.title).join(', ')}`);
+  }
+
+  const before = state.jobs.length;
+  state = { ...state, jobs: state.jobs.filter(j => !ids.has(j.id)) };
+  broadcastState();
+  persistState();
+  emitLog('info', `Deleted ${before - state.jobs.length} job(s)`);
+}
+
+/** Insert a fresh pending copy of a job right after the original */
+export function duplicateJob(jobId: string): void {
+  const index = state.jobs.findIndex(j => j.id === jobId);
+  if (index === -1) return;
+
+  const original = state.jobs[index];
+  // The copy is not linked to the Notion page, so the original alone syncs its status
+  const { notionPageId, ...input } = original.input;
+  const copy: Job = {
+    id: newJobIds(1)[0],
+    input,
+    status: 'pending',
+    retryCount: 0,
+    priority: original.priority ?? 0,
+    attempts: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+
+  const jobs = [...state.jobs];
+  jobs.splice(index + 1, 0, copy);
+  state = { ...state, jobs };
+  broadcastState();
+  persistState();
+  emitLog('info', `Duplicated "${original.input.title}"`);
+}
+
+/**
+ * Apply one bulk action. retryFailed and rerunCompleted fall back to every
+ * matching job when no IDs are given; skip and remove need a selection.
+ */
+export function bulkJobAction(action: BulkJobAction, jobIds?: string[]): void {
+  if (action === 'remove') {
+    if (jobIds?.length) deleteJobs(jobIds);
+    return;
+  }
+
+  const selected = jobIds?.length ? new Set(jobIds) : null;
+  const inScope = state.jobs.filter(j => (selected ? selected.has(j.id) : action !== 'skip') && !isJobActive(j));
+  const updates = new Map<string, Partial<Job>>();
+
+  for (const job of inScope) {
+    if (action === 'retryFailed' && ['failed', 'timedOut', 'aborted'].includes(job.status)) {
+      updates.set(job.id, { status: 'pending', retryCount: 0, error: undefined, errorCode: undefined, retryAt: undefined });
+    } else if (action === 'rerunCompleted' && job.status === 'completed') {
+      updates.set(job.id, { status: 'pending', retryCount: 0, error: undefined, errorCode: undefined, retryAt: undefined, songIds: undefined, clips: undefined });
+    } else if (action === 'skip' && ['pending', 'failed', 'timedOut', 'aborted'].includes(job.status)) {
+      updates.set(job.id, { status: 'skipped' });
+    }
+  }
+
+  updateJobs(updates);
+  emitLog('info', `${BULK_ACTION_LABELS[action]}: ${updates.size} job(s)`);
+}
+
+const BULK_ACTION_LABELS: Record<BulkJobAction, string> = {
+  retryFailed: 'Retry failed',
+  skip: 'Skip selected',
+  rerunCompleted: 'Re-run completed',
+  remove: 'Remove selected',
+};
+
+function isJobActive(job: Job): boolean {
+  return state.activeJobIds.includes(job.id) ||
+    ['filling', 'creating', 'waiting', 'downloading'].includes(job.status);
+}
+
+export function reorderJobs(jobIds: string[], movedJobId?: string): void {
+  const byId = new Map(state.jobs.map(j => [j.id, j]));
+  const listed = jobIds.map(id => byId.get(id)).filter((j): j is Job => !!j);
+  const listedIds = new Set(listed.map(j => j.id));
+  const rest = state.jobs.filter(j => !listedIds.has(j.id));
+  const jobs = [...listed, ...rest];
+
+  // Priority wins over queue order when picking the next job, so a moved job takes a priority
+  // between the pending jobs above it and those below it; otherwise moving it would change nothing
+  const movedIndex = jobs.findIndex(j => j.id === movedJobId);
+  const moved = jobs[movedIndex];
+  if (moved?.status === 'pending') {
+    const pendingPriorities = (list: Job[]) => list.filter(j => j.status === 'pending').map(j => j.priority ?? 0);
+    const below = Math.max(...pendingPriorities(jobs.slice(movedIndex + 1)));
+    const above = Math.min(...pendingPriorities(jobs.slice(0, movedIndex)));
+    const current = moved.priority ?? 0;
+    const priority = Math.min(Math.max(current, below), above);
+    if (priority !== current) {
+      jobs[movedIndex] = { ...moved, priority };
+      emitLog('info', `Priority of "${moved.input.title}" set to ${priority} to match its new position`);
+    }
+  }
+
+  state = { ...state, jobs };
+  broadcastState();
+  persistState();
+}
+
+export function setJobPriority(jobId: string, priority: number): void {
+  const job = state.jobs.find(j => j.id === jobId);
+  if (!job) return;
+
+  updateJob(jobId, { priority });
+  emitLog('info', `Priority of "${job.input.title}" set to ${priority}`);
+}
+
+/** Highest-priority pending job that is not backing off; ties go to the one earliest in the queue */
+function pickNextPendingJob(): Job | undefined {
+  const now = Date.now();
+  let next: Job | undefined;
+  for (const job of state.jobs) {
+    if (job.status !== 'pending' || (job.retryAt ?? 0) > now) continue;
+    if (!next || (job.priority ?? 0) > (next.priority ?? 0)) next = job;
+  }
+  return next;
+}
+
 export function addLibrarySongs(songs: LibrarySong[]): void {
   const existingIdSet = new Set(state.library.map(s => s.id));
   const newSongs = songs.filter(s => !existingIdSet.has(s.id));
@@ -105,34 +317,208 @@ export async function fetchNotionJobs(): Promise<Job[] | void> {
 export async function startQueue(): Promise<void> {
   if (loopActive) return;
 
-  state = { ...state, running: true };
+  state = { ...state, running: true, paused: false };
   loopActive = true;
   broadcastState();
   emitLog('info', 'Queue started');
 
-  await runLoop();
+  await resumeOrphanedJobs();
+  await launchLoop();
+}
+
+/**
+ * Stop triggering new jobs. Jobs already in flight keep polling and
+ * finish their downloads; resumeQueue() picks up from there.
+ */
+export function pauseQueue(): void {
+  if (!loopActive) return;
+
+  loopActive = false;
+  state = { ...state, running: false, paused: true };
+  broadcastState();
+  persistState();
+  emitLog('info', `Queue paused — ${inFlight.size} in-flight job(s) will finish`);
+}
+
+export async function resumeQueue(): Promise<void> {
+  if (!state.paused || loopActive) return;
+
+  state = { ...state, running: true, paused: false };
+  loopActive = true;
+  broadcastState();
+  persistState();
+  emitLog('info', 'Queue resumed');
+
+  await resumeOrphanedJobs();
+  await launchLoop();
 }
 
 export function stopQueue(): void {
+  // Capture the active jobs in the main queue before the state is reset
+  const activeIds = new Set([...state.activeJobIds, ...inFlight.keys()]);
+
   loopActive = false;
-  state = { ...state, running: false, activeJobIds: [] };
+  state = { ...state, running: false, paused: false };
   broadcastState();
   persistState();
-  emitLog('info', 'Queue stopped');
+  emitLog('info', `Queue stopped${activeIds.size > 0 ? ` — aborting ${activeIds.size} active job(s)` : ''}`);
+
+  activeIds.forEach(id => abortJob(id));
+  // Jobs of an API generation run are only known to the content script; abort the run there
+  sendToContentScript({ type: 'ABORT_JOB' });
+}
 
-  // Abort only the active jobs in the main queue
-  state.activeJobIds.forEach(id => {
-    sendToContentScript({ type: 'ABORT_JOB', payload: { jobId: id } });
+/**
+ * Cancel a job at every layer: the content script's trigger/polling/download
+ * steps, pending chrome.downloads, and the promises waiting on it here.
+ * The job ends in the 'aborted' status.
+ */
+export function abortJob(jobId: string): void {
+  haltJob(jobId);
+
+  const job = state.jobs.find(j => j.id === jobId);
+  if (job && ['pending', 'filling', 'creating', 'waiting', 'downloading'].includes(job.status)) {
+    updateJob(jobId, { status: 'aborted', error: undefined });
+  }
+  setJobActive(jobId, false);
+}
+
+/** Stop the job's work everywhere without touching its status */
+function haltJob(jobId: string): void {
+  sendToContentScript({ type: 'ABORT_JOB', payload: { jobId } });
+  cancelJobDownloads(jobId);
+  orphanedJobIds.delete(jobId);
+
+  abortHandlers.get(jobId)?.forEach(handler => handler());
+  abortHandlers.delete(jobId);
+}
+
+/** Failure class reported for a watchdog stall in each phase */
+const STALL_ERROR_CODES: Record<WatchedPhase, JobErrorCode> = {
+  filling: 'selector-not-found',
+  creating: 'intercept-timeout',
+  waiting: 'polling-timeout',
+  downloading: 'download-failed',
+};
+
+/**
+ * Retry policy for a job the watchdog caught stalling. Jobs stalled after Create
+ * are monitored again (no new credits spent); earlier stalls go through the
+ * error code's retry policy. Once retries run out the job ends as 'timedOut'.
+ */
+function handleTimedOutJob(jobId: string, phase: WatchedPhase, timeoutMs: number): void {
+  const job = state.jobs.find(j => j.id === jobId);
+  if (!job) return;
+
+  const error = `Stalled in ${phase} for ${Math.round(timeoutMs / 1000)}s`;
+  const errorCode = STALL_ERROR_CODES[phase];
+  const retryCount = job.retryCount ?? 0;
+  const hasClips = !!job.songIds?.length && (phase === 'waiting' || phase === 'downloading');
+
+  // Retries need the scheduler (running, or paused and resumable) to pick the job up again
+  if (!(loopActive || state.paused) || retryCount >= settings.maxRetries) {
+    emitLog('error', `"${job.input.title}" timed out: ${error}`);
+    updateJob(jobId, { status: 'timedOut', error, errorCode });
+    haltJob(jobId);
+    return;
+  }
+
+  if (hasClips) {
+    // Re-attach; the content script keeps a monitor that is still alive and drops the duplicate
+    emitLog('warn', `"${job.input.title}" timed out (${error}). Monitoring again (attempt ${retryCount + 2}/${settings.maxRetries + 1})`);
+    updateJob(jobId, { status: 'waiting', error, errorCode, retryCount: retryCount + 1 });
+    orphanedJobIds.add(jobId);
+  } else {
+    haltJob(jobId);
+    applyRetryPolicy(jobId, errorCode, error, 'timedOut');
+  }
+}
+
+/**
+ * Decide what happens after a failed attempt from the error code's retry
+ * policy: requeue (now or after a backoff), fail, or fail and pause the queue.
+ */
+function applyRetryPolicy(
+  jobId: string,
+  errorCode: JobErrorCode,
+  error: string | undefined,
+  finalStatus: 'failed' | 'timedOut' = 'failed',
+): void {
+  const job = state.jobs.find(j => j.id === jobId);
+  if (!job) return;
+
+  const strategy = RETRY_POLICIES[errorCode];
+  const retryCount = job.retryCount ?? 0;
+
+  if (strategy === 'pause') {
+    emitLog('error', `"${job.input.title}" failed (${errorCode}): ${error ?? ''}. Pausing queue — fix the problem and resume.`);
+    updateJob(jobId, { status: finalStatus, error, errorCode });
+    if (loopActive) pauseQueue();
+    return;
+  }
+
+  if (strategy === 'fail' || retryCount >= settings.maxRetries) {
+    emitLog('error', `"${job.input.title}" failed permanently (${errorCode}): ${error ?? ''}`);
+    updateJob(jobId, { status: finalStatus, error, errorCode });
+    return;
+  }
+
+  const delayMs = retryDelayMs(strategy, retryCount);
+  emitLog(
+    'warn',
+    `"${job.input.title}" failed (${errorCode}). Retrying ${delayMs > 0 ? `in ${Math.round(delayMs / 1000)}s` : 'now'} ` +
+    `(attempt ${retryCount + 2}/${settings.maxRetries + 1})`,
+  );
+  updateJob(jobId, {
+    status: 'pending',
+    error,
+    errorCode,
+    retryCount: retryCount + 1,
+    retryAt: delayMs > 0 ? Date.now() + delayMs : undefined,
   });
 }
 
+/** Register a callback run when the job is aborted; returns an unsubscribe function */
+function onJobAborted(jobId: string, handler: () => void): () => void {
+  return addJobHandler(abortHandlers, jobId, handler);
+}
+
+/** Register a callback run when any clip of the job changes; returns an unsubscribe function */
+function onClipsChanged(jobId: string, handler: () => void): () => void {
+  return addJobHandler(clipHandlers, jobId, handler);
+}
+
+function addJobHandler(registry: Map<string, Set<() => void>>, jobId: string, handler: () => void): () => void {
+  const handlers = registry.get(jobId) ?? new Set<() => void>();
+  handlers.add(handler);
+  registry.set(jobId, handlers);
+  return () => {
+    handlers.delete(handler);
+    if (handlers.size === 0) registry.delete(jobId);
+  };
+}
+
+/** Run the scheduler loop, letting a previous loop (e.g. one still winding down after a pause) exit first */
+async function launchLoop(): Promise<void> {
+  if (loopTask) await loopTask;
+  if (!loopActive || loopTask) return;
+
+  loopTask = runLoop().finally(() => {
+    loopTask = null;
+  });
+  await loopTask;
+}
+
 async function runLoop(): Promise<void> {
   while (loopActive) {
-    // Pick up to 3 pending jobs
-    const pendingJobs = state.jobs.filter((j) => j.status === 'pending');
-    if (pendingJobs.length === 0) {
+    await resumeOrphanedJobs();
+
+    const nextJob = pickNextPendingJob();
+    if (!nextJob) {
       // Check if there are any still running
-      const stillRunning = state.jobs.some((j) => ['filling', 'creating', 'waiting', 'downloading'].includes(j.status));
+      const stillRunning = inFlight.size > 0 ||
+        state.jobs.some((j) => ['filling', 'creating', 'waiting', 'downloading'].includes(j.status) ||
+          (j.status === 'pending' && !!j.retryAt));
       if (!stillRunning) {
         emitLog('info', 'All jobs processed. Queue finished.');
         loopActive = false;
@@ -140,25 +526,24 @@ async function runLoop(): Promise<void> {
         broadcastState();
         persistState();
         return;
-      } else {
-        // Wait a bit before checking again, some manual jobs might be running
-        await delay(2000);
-        continue;
       }
+      // Wait for an in-flight job to settle, some manual jobs might be running too
+      await waitForSlot();
+      continue;
     }
 
-    const batch = pendingJobs.slice(0, 3);
-    const batchIds = batch.map(j => j.id);
-    state = { ...state, activeJobIds: batchIds };
-    broadcastState();
-    emitLog('info', `Starting batch of ${batch.length} jobs: ${batch.map(j => j.input.title).join(', ')}`);
+    // All slots taken — wait until any in-flight job finishes
+    if (inFlight.size >= Math.max(1, settings.maxConcurrentJobs)) {
+      await waitForSlot();
+      continue;
+    }
 
     // Check if content script is on the right page
     const pageOk = await checkPageWithRetry(5, 3000);
     if (!pageOk) {
       emitLog('error', 'Not on suno.com/create page. Queue paused — navigate to suno.com/create and press Start again.');
       loopActive = false;
-      state = { ...state, running: false, activeJobIds: [] };
+      state = { ...state, running: false };
       broadcastState();
       persistState();
       return;
@@ -166,67 +551,98 @@ async function runLoop(): Promise<void> {
 
     if (!loopActive) break;
 
-    // Phase 1: Sequential Trigger (filling & creating)
-    const monitorPromises: Promise<boolean>[] = [];
-
-    for (const job of batch) {
-      if (!loopActive) break;
-
-      updateJob(job.id, { status: 'filling' });
-      emitLog('info', `[1/3] Triggering: ${job.input.title}`);
+    // Triggers stay sequential (they drive the page UI); monitoring runs in parallel
+    setJobActive(nextJob.id, true);
+    updateJob(nextJob.id, { status: 'filling' });
+    emitLog('info', `[1/3] Triggering: ${nextJob.input.title} (${inFlight.size + 1}/${settings.maxConcurrentJobs} slots)`);
 
-      const triggerResult = await triggerJobViaContentScript(job);
+    const triggerResult = await triggerJobViaContentScript(nextJob);
 
-      // Re-read job from state
-      const currentJob = state.jobs.find((j) => j.id === job.id);
-
-      if (!triggerResult.success) {
-        const retryCount = currentJob?.retryCount ?? 0;
-        if (retryCount < settings.maxRetries) {
-          emitLog('warn', `Trigger Failed. Retrying "${job.input.title}" later (attempt ${retryCount + 2}/${settings.maxRetries + 1})`);
-          updateJob(job.id, { status: 'pending', retryCount: retryCount + 1 });
-        } else {
-          emitLog('error', `Trigger Failed permanently for "${job.input.title}"`);
-          updateJob(job.id, { status: 'failed', error: triggerResult.error });
-        }
-        continue; // Skip monitoring for this job
-      }
+    // Re-read job from state
+    const currentJob = state.jobs.find((j) => j.id === nextJob.id);
 
-      // If trigger was successful, queue it for parallel monitoring
-      if (triggerResult.songIds && triggerResult.songIds.length > 0) {
-        updateJob(job.id, { songIds: triggerResult.songIds });
-        const libraryEntries: LibrarySong[] = triggerResult.songIds.map(id => ({
-          id,
-          title: job.input.title
-        }));
-        addLibrarySongs(libraryEntries);
-        // We do *not* await this immediately — we fire and collect the promise
-        const p = monitorJobViaContentScript(currentJob!, triggerResult.songIds);
-        monitorPromises.push(p);
-      }
-
-      // Small delay between inputs to avoid overwhelming the UI
-      await delay(2000);
+    if (triggerResult.aborted) {
+      emitLog('info', `Trigger aborted for "${nextJob.input.title}"`);
+      setJobActive(nextJob.id, false);
+      continue;
     }
 
-    if (!loopActive) break;
+    if (triggerResult.timedOut) {
+      setJobActive(nextJob.id, false);
+      continue; // Retry policy already applied by the watchdog
+    }
 
-    // Phase 2: Parallel Monitor (waiting & downloading)
-    if (monitorPromises.length > 0) {
-      emitLog('info', `[2/3] Waiting for generation & download in parallel (${monitorPromises.length} jobs)...`);
-      await Promise.all(monitorPromises);
+    if (!triggerResult.success) {
+      setJobActive(nextJob.id, false);
+      applyRetryPolicy(nextJob.id, triggerResult.errorCode ?? classifyError(triggerResult.error), triggerResult.error);
+      continue;
     }
 
-    if (!loopActive) break;
+    if (triggerResult.songIds && triggerResult.songIds.length > 0) {
+      updateJob(nextJob.id, { songIds: triggerResult.songIds, clips: createClips(triggerResult.songIds), errorCode: undefined, retryAt: undefined });
+      const libraryEntries: LibrarySong[] = triggerResult.songIds.map(id => ({
+        id,
+        title: nextJob.input.title
+      }));
+      addLibrarySongs(libraryEntries);
+      emitLog('info', `[2/3] Monitoring "${nextJob.input.title}" in background`);
+      trackInFlight(nextJob.id, monitorJobViaContentScript(currentJob!, triggerResult.songIds));
+    } else {
+      setJobActive(nextJob.id, false);
+    }
 
-    // Delay between cycles
+    // Delay between triggers to avoid overwhelming the UI
     if (loopActive) {
-      emitLog('info', `Batch finished. Waiting ${settings.delayBetweenSongs / 1000}s before next batch...`);
       await delay(settings.delayBetweenSongs);
     }
   }
 }
 
+/**
+ * Re-issue MONITOR_JOB for jobs that were generating when the service worker
+ * restarted. They already spent credits, so they are only monitored, never re-triggered.
+ */
+export async function resumeOrphanedJobs(): Promise<void> {
+  if (orphanedJobIds.size === 0) return;
+
+  const pageOk = await checkPageWithRetry(3, 2000, false);
+  if (!pageOk) {
+    emitLog('warn', `${orphanedJobIds.size} restored job(s) still waiting for a suno.com/create tab to resume monitoring`);
+    return;
+  }
+
+  for (const id of [...orphanedJobIds]) {
+    orphanedJobIds.delete(id);
+    const job = state.jobs.find(j => j.id === id);
+    if (!job || job.status !== 'waiting' || !job.songIds?.length || inFlight.has(id)) continue;
+
+    emitLog('info', `Resuming monitoring for "${job.input.title}" (${job.songIds.length} clip(s))`);
+    trackInFlight(id, monitorJobViaContentScript(job, job.songIds));
+  }
+}
+
+/** Occupy a scheduler slot until the monitor promise settles */
+function trackInFlight(jobId: string, monitor: Promise<boolean>): void {
+  const tracked = monitor
+    .catch(() => false)
+    .finally(() => {
+      inFlight.delete(jobId);
+      setJobActive(jobId, false);
+    });
+  inFlight.set(jobId, tracked);
+}
+
+/** Resolve when any in-flight job settles (or after a short poll interval) */
+async function waitForSlot(): Promise<void> {
+  await Promise.race([...inFlight.values(), delay(2000)]);
+}
+
+function setJobActive(jobId: string, active: boolean): void {
+  const others = state.activeJobIds.filter(id => id !== jobId);
+  state = { ...state, activeJobIds: active ? [...others, jobId] : others };
+  broadcastState();
+}
+
 export async function checkPageWithRetry(maxAttempts: number, intervalMs: number, requireLoopActive: boolean = true): Promise<boolean> {
   for (let i = 0; i < maxAttempts; i++) {
     if (requireLoopActive && !loopActive) return false;
@@ -264,25 +680,55 @@ export async function checkPageWithRetry(maxAttempts: number, intervalMs: number
   return false;
 }
 
-async function triggerJobViaContentScript(job: Job): Promise<{ success: boolean; songIds?: string[]; error?: string }> {
+async function triggerJobViaContentScript(job: Job): Promise<{
+  success: boolean;
+  aborted?: boolean;
+  timedOut?: boolean;
+  songIds?: string[];
+  error?: string;
+  errorCode?: JobErrorCode;
+}> {
   return new Promise((resolve) => {
+    const cleanup = () => {
+      watchdog.stop();
+      chrome.runtime.onMessage.removeListener(listener);
+      unsubscribeAbort();
+    };
+
+    const watchdog = createPhaseWatchdog(settings, (phase, timeoutMs) => {
+      cleanup();
+      handleTimedOutJob(job.id, phase, timeoutMs);
+      resolve({ success: false, timedOut: true });
+    });
+
     // Listen for progress updates specifically from this trigger call
     const listener = (message: JobProgressMessage) => {
       if (message.type !== 'JOB_PROGRESS' || message.payload.jobId !== job.id) return;
 
-      const { status, error, songIds } = message.payload;
-      updateJob(job.id, { status, error });
+      const { status, error, errorCode, songIds } = message.payload;
+      // Failures are recorded by the retry policy, which decides the final status
+      if (status !== 'failed') updateJob(job.id, { status, error });
+      watchdog.enter(status);
 
       if (status === 'waiting') {
-        chrome.runtime.onMessage.removeListener(listener);
+        cleanup();
         resolve({ success: true, songIds });
       } else if (status === 'failed') {
-        chrome.runtime.onMessage.removeListener(listener);
-        resolve({ success: false, error });
+        cleanup();
+        resolve({ success: false, error, errorCode });
+      } else if (status === 'aborted') {
+        cleanup();
+        resolve({ success: false, aborted: true });
       }
     };
 
+    const unsubscribeAbort = onJobAborted(job.id, () => {
+      cleanup();
+      resolve({ success: false, aborted: true });
+    });
+
     chrome.runtime.onMessage.addListener(listener);
+    watchdog.enter('filling');
 
     // Send TRIGGER command
     sendToContentScript({
@@ -294,29 +740,83 @@ async function triggerJobViaContentScript(job: Job): Promise<{ success: boolean;
 
 async function monitorJobViaContentScript(job: Job, songIds: string[]): Promise<boolean> {
   return new Promise((resolve) => {
-    const timeout = setTimeout(() => {
+    let unsubscribeClips = () => { };
+    const cleanup = () => {
+      watchdog.stop();
+      chrome.runtime.onMessage.removeListener(listener);
+      unsubscribeAbort();
+      unsubscribeClips();
+    };
+
+    const watchdog = createPhaseWatchdog(settings, (phase, timeoutMs) => {
+      cleanup();
+      handleTimedOutJob(job.id, phase, timeoutMs);
       resolve(false);
-    }, settings.generationTimeout + 120_000); // Wait max timeout + 2 mins buffer
+    });
+
+    /** Settle the job from its clips; returns false while files are still being saved */
+    const finishFromClips = (): boolean => {
+      const clips = state.jobs.find(j => j.id === job.id)?.clips ?? [];
+      const derived = deriveJobStatus(clips);
+      if (derived === 'waiting' || derived === 'downloading') return false;
+
+      const formats = summarizeFormats(clips);
+      if (derived === 'failed') {
+        const failed = clips.filter(c => c.status === 'failed');
+        const error = `${failed.length} of ${clips.length} clip(s) failed: ${failed.map(c => c.error ?? c.id).join('; ')}`;
+        emitLog('error', `"${job.input.title}" ${error}${formats ? ` [${formats}]` : ''}. Use Download to retry the missing files.`);
+        updateJob(job.id, { status: 'failed', error, errorCode: failed[0].errorCode ?? 'download-failed' });
+      } else {
+        if (formats) emitLog('info', `"${job.input.title}" saved: ${formats}`);
+        updateJob(job.id, { status: 'completed', error: undefined, errorCode: undefined });
+      }
+      cleanup();
+      resolve(derived !== 'failed');
+      return true;
+    };
 
     const listener = (message: JobProgressMessage) => {
       if (message.type !== 'JOB_PROGRESS' || message.payload.jobId !== job.id) return;
 
       const { status, error } = message.payload;
-      // We don't overwrite manual statuses if it failed already elsewhere
-      updateJob(job.id, { status, error });
 
       if (status === 'completed') {
-        clearTimeout(timeout);
-        chrome.runtime.onMessage.removeListener(listener);
-        resolve(true);
-      } else if (status === 'failed') {
-        clearTimeout(timeout);
-        chrome.runtime.onMessage.removeListener(listener);
+        // Every clip was attempted; the job completes once chrome.downloads confirms each file
+        if (!finishFromClips()) {
+          emitLog('info', `"${job.input.title}": waiting for Chrome to finish saving the files...`);
+          unsubscribeClips = onClipsChanged(job.id, finishFromClips);
+        }
+        return;
+      }
+
+      const errorCode = status === 'failed' ? message.payload.errorCode ?? classifyError(error) : undefined;
+      // We don't overwrite manual statuses if it failed already elsewhere
+      updateJob(job.id, { status, error, errorCode });
+      watchdog.enter(status);
+
+      if (status === 'timedOut') {
+        cleanup();
+        handleTimedOutJob(job.id, 'waiting', settings.generationTimeout);
+        resolve(false);
+      } else if (status === 'failed' && errorCode && RETRY_POLICIES[errorCode] === 'pause' && loopActive) {
+        // Clips already exist, so the job is not re-triggered, but a queue-wide problem still pauses the queue
+        cleanup();
+        emitLog('error', `"${job.input.title}" failed (${errorCode}). Pausing queue — fix the problem and resume.`);
+        pauseQueue();
+        resolve(false);
+      } else if (status === 'failed' || status === 'aborted') {
+        cleanup();
         resolve(false);
       }
     };
 
+    const unsubscribeAbort = onJobAborted(job.id, () => {
+      cleanup();
+      resolve(false);
+    });
+
     chrome.runtime.onMessage.addListener(listener);
+    watchdog.enter('waiting');
 
     // Send MONITOR command
     sendToContentScript({
@@ -391,27 +891,66 @@ async function injectContentScript(tabId: number): Promise<boolean> {
 // ---- Helpers ----
 
 export function updateJob(id: string, updates: Partial<Job>): void {
-  const jobToUpdate = state.jobs.find(j => j.id === id);
-  const oldStatus = jobToUpdate?.status;
+  updateJobs(new Map([[id, updates]]));
+}
+
+/** Apply updates to many jobs with a single broadcast, persist and Notion sync pass */
+export function updateJobs(updatesById: Map<string, Partial<Job>>): void {
+  if (updatesById.size === 0) return;
+
+  const oldStatuses = new Map(state.jobs.map(j => [j.id, j.status]));
+  const now = Date.now();
 
   state = {
     ...state,
-    jobs: state.jobs.map((j) =>
-      j.id === id ? { ...j, ...updates, updatedAt: Date.now() } : j,
-    ),
+    jobs: state.jobs.map((j) => {
+      const updates = updatesById.get(j.id);
+      if (!updates) return j;
+      return { ...j, ...updates, attempts: recordAttempt(j, updates, now), updatedAt: now };
+    }),
   };
   broadcastState();
   persistState();
 
   // If status changed to a terminal state and it's a Notion job, sync it
-  if (updates.status && updates.status !== oldStatus) {
-    const updatedJob = state.jobs.find(j => j.id === id);
-    if (updatedJob?.notionPageId && ['completed', 'failed', 'skipped'].includes(updates.status)) {
-      updateNotionJobStatus(settings, updatedJob.notionPageId, updates.status).catch(e => {
-        emitLog('error', `Failed to sync Notion status for ${updatedJob.input.title}: ${e.message}`);
-      });
+  const notionSyncs = state.jobs.filter((j) => {
+    const newStatus = updatesById.get(j.id)?.status;
+    return !!j.notionPageId && !!newStatus && newStatus !== oldStatuses.get(j.id) &&
+      ['completed', 'failed', 'skipped', 'timedOut'].includes(newStatus);
+  });
+  notionSyncs.forEach((updatedJob) => {
+    updateNotionJobStatus(settings, updatedJob.notionPageId!, updatedJob.status).catch(e => {
+      emitLog('error', `Failed to sync Notion status for ${updatedJob.input.title}: ${e.message}`);
+    });
+  });
+}
+
+/** Record progress of a single clip reported by the content script */
+export function updateClip(
+  jobId: string,
+  clipId: string,
+  updates: Partial<JobClip>,
+  files?: Partial<Record<DownloadFormat, Partial<ClipFile>>>,
+): void {
+  const job = state.jobs.find(j => j.id === jobId);
+  if (!job) return; // API runs and library downloads are not queue jobs
+
+  updateJob(jobId, { clips: mergeClip(job.clips ?? [], clipId, updates, files) });
+  clipHandlers.get(jobId)?.forEach(handler => handler());
+}
+
+/** The queue job, clip and format a chrome.downloads id belongs to, if any */
+export function findClipByDownloadId(
+  downloadId: number,
+): { job: Job; clip: JobClip; format: DownloadFormat; file: ClipFile } | null {
+  for (const job of state.jobs) {
+    for (const clip of job.clips ?? []) {
+      for (const [format, file] of Object.entries(clip.files ?? {}) as [DownloadFormat, ClipFile][]) {
+        if (file.downloadId === downloadId) return { job, clip, format, file };
+      }
     }
   }
+  return null;
 }
 
 export async function manualRunJob(jobId: string): Promise<void> {
@@ -439,16 +978,23 @@ export async function manualRunJob(jobId: string): Promise<void> {
   emitLog('info', `[Manual Run] Triggering UI for: ${job.input.title}`);
   const triggerResult = await triggerJobViaContentScript(job);
 
-  const currentJob = state.jobs.find((j) => j.id === job.id);
+  if (triggerResult.aborted || triggerResult.timedOut) {
+    emitLog('info', `[Manual Run] ${triggerResult.aborted ? 'Aborted' : 'Timed out'}: "${job.input.title}"`);
+    return;
+  }
 
   if (!triggerResult.success) {
     emitLog('error', `[Manual Run] Trigger Failed for "${job.input.title}"`);
-    updateJob(job.id, { status: 'failed', error: triggerResult.error });
+    updateJob(job.id, {
+      status: 'failed',
+      error: triggerResult.error,
+      errorCode: triggerResult.errorCode ?? classifyError(triggerResult.error),
+    });
     return;
   }
 
   if (triggerResult.songIds && triggerResult.songIds.length > 0) {
-    updateJob(job.id, { songIds: triggerResult.songIds, status: 'completed' });
+    updateJob(job.id, { songIds: triggerResult.songIds, clips: createClips(triggerResult.songIds), errorCode: undefined });
     emitLog('info', `[Manual Run] Generation triggered. Added to Library.`);
 
     // Add to library
@@ -457,6 +1003,11 @@ export async function manualRunJob(jobId: string): Promise<void> {
       title: job.input.title
     }));
     addLibrarySongs(libraryEntries);
+
+    // The clips are still generating: monitor them like a queued job, so the job status follows its clips
+    const currentJob = state.jobs.find(j => j.id === job.id)!;
+    setJobActive(job.id, true);
+    trackInFlight(job.id, monitorJobViaContentScript(currentJob, triggerResult.songIds));
   }
 }
 
@@ -473,6 +1024,8 @@ export async function manualDownloadJob(jobId: string, title?: string): Promise<
       status: 'pending',
       songIds: [jobId],
       retryCount: 0,
+      priority: 0,
+      attempts: [],
       createdAt: Date.now(),
       updatedAt: Date.now()
     } as Job;
@@ -545,25 +1098,50 @@ function persistState(): void {
 // ---- Init: restore persisted state ----
 
 export async function restoreState(): Promise<void> {
+  try {
+    await loadPersistedState();
+  } finally {
+    resolveRestored();
+  }
+}
+
+/** Whether the service worker stopped while the queue was running (it restarts stopped) */
+export function wasRunInterrupted(): boolean {
+  return runInterrupted;
+}
+
+async function loadPersistedState(): Promise<void> {
   const data = await chrome.storage.local.get([STORAGE_KEY_QUEUE, STORAGE_KEY_SETTINGS]);
 
   if (data[STORAGE_KEY_QUEUE]) {
     const restored = data[STORAGE_KEY_QUEUE] as QueueState;
+    runInterrupted = restored.running && !restored.paused;
     // Reset running state on restore (service worker restarted)
     restored.running = false;
+    restored.paused = false;
     restored.activeJobIds = [];
-    // Reset any in-progress jobs back to pending
+    // Jobs that already reached Create are only monitored again; the rest go back to pending
     restored.jobs = restored.jobs.map((j) => {
-      if (['filling', 'creating', 'waiting', 'downloading'].includes(j.status)) {
-        return { ...j, status: 'pending' as const };
+      if (!['filling', 'creating', 'waiting', 'downloading'].includes(j.status)) return j;
+      if (j.songIds && j.songIds.length > 0) {
+        orphanedJobIds.add(j.id);
+        return { ...j, status: 'waiting' as const };
       }
-      return j;
-    });
+      return { ...j, status: 'pending' as const };
+    }).map((j) => ({ ...j, priority: j.priority ?? 0, attempts: j.attempts ?? [] }));
     if (!restored.library) restored.library = [];
     state = restored;
   }
 
   if (data[STORAGE_KEY_SETTINGS]) {
-    settings = { ...settings, ...data[STORAGE_KEY_SETTINGS] };
+    const { downloadFormat, ...saved } = data[STORAGE_KEY_SETTINGS];
+    settings = { ...settings, ...saved };
+    // Settings saved before multi-format downloads had a single downloadFormat
+    if (!saved.downloadFormats && downloadFormat) settings.downloadFormats = [downloadFormat];
+  }
+
+  if (orphanedJobIds.size > 0) {
+    emitLog('info', `Restored ${orphanedJobIds.size} in-flight job(s) with clip IDs — resuming monitoring`);
+    resumeOrphanedJobs();
   }
 }
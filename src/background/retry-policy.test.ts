@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { classifyError, retryDelayMs } from './retry-policy';
+
+describe('retryDelayMs', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('does not wait for strategies other than backoff', () => {
+    expect(retryDelayMs('immediate', 3)).toBe(0);
+    expect(retryDelayMs('fail', 3)).toBe(0);
+    expect(retryDelayMs('pause', 3)).toBe(0);
+  });
+
+  it('waits between half and all of the exponential step', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(retryDelayMs('backoff', 0)).toBe(2_500);
+    expect(retryDelayMs('backoff', 2)).toBe(10_000);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(retryDelayMs('backoff', 0)).toBe(5_000);
+    expect(retryDelayMs('backoff', 2)).toBe(20_000);
+  });
+
+  it('caps the step at five minutes', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(retryDelayMs('backoff', 20)).toBe(300_000);
+  });
+});
+
+describe('classifyError', () => {
+  it.each([
+    ['Could not find the Create button', 'selector-not-found'],
+    ['Timeout waiting for generation network response', 'intercept-timeout'],
+    ['Could not get auth token for polling', 'auth-missing'],
+    ['HTTP 429 Too Many Requests', 'rate-limited'],
+    ['Not enough credits', 'out-of-credits'],
+    ['Rejected by content policy', 'moderation-rejected'],
+    ["Timeout waiting for song status after 600s", 'polling-timeout'],
+    ['Download failed: 404', 'download-failed'],
+    ['Something odd happened', 'unknown'],
+  ] as const)('classifies "%s" as %s', (message, code) => {
+    expect(classifyError(message)).toBe(code);
+  });
+
+  it('treats a missing message as unknown', () => {
+    expect(classifyError(undefined)).toBe('unknown');
+  });
+});
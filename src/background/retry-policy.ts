@@ -0,0 +1,46 @@
+import type { JobErrorCode } from '../types/job';
+
+/**
+ * What to do after a failed attempt:
+ *  - immediate: back to pending right away
+ *  - backoff:   back to pending after an exponential delay with jitter
+ *  - fail:      no retry, the job fails
+ *  - pause:     no retry, and the queue pauses (the problem affects every job)
+ */
+export type RetryStrategy = 'immediate' | 'backoff' | 'fail' | 'pause';
+
+export const RETRY_POLICIES: Record<JobErrorCode, RetryStrategy> = {
+  'selector-not-found': 'immediate',
+  'intercept-timeout': 'backoff',
+  'auth-missing': 'pause',
+  'rate-limited': 'backoff',
+  'moderation-rejected': 'fail',
+  'out-of-credits': 'pause',
+  'polling-timeout': 'backoff',
+  'download-failed': 'immediate',
+  'unknown': 'backoff',
+};
+
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 300_000;
+
+/** Delay before retry number `attempt` (0-based); exponential with full jitter on top of half the step */
+export function retryDelayMs(strategy: RetryStrategy, attempt: number): number {
+  if (strategy !== 'backoff') return 0;
+  const step = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.round(step / 2 + Math.random() * (step / 2));
+}
+
+/** Best-effort failure class for errors the content script did not tag */
+export function classifyError(message: string | undefined): JobErrorCode {
+  const text = (message ?? '').toLowerCase();
+  if (text.includes('could not find')) return 'selector-not-found';
+  if (text.includes('network response') || text.includes('capture generation')) return 'intercept-timeout';
+  if (text.includes('auth') || text.includes('token')) return 'auth-missing';
+  if (text.includes('429') || text.includes('too many') || text.includes('rate limit')) return 'rate-limited';
+  if (text.includes('credit')) return 'out-of-credits';
+  if (text.includes('moderat') || text.includes('policy')) return 'moderation-rejected';
+  if (text.includes('song status')) return 'polling-timeout';
+  if (text.includes('download')) return 'download-failed';
+  return 'unknown';
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ScheduleSettings } from '../types/messages';
+import { getState } from './queue-coordinator';
+import { applySchedule } from './scheduler';
+
+vi.mock('./queue-coordinator', () => ({
+  emitLog: vi.fn(),
+  getSettings: vi.fn(),
+  getState: vi.fn(() => ({ running: false, jobs: [] })),
+  pauseQueue: vi.fn(),
+  startQueue: vi.fn(),
+  stateRestored: Promise.resolve(),
+  updateSettings: vi.fn(),
+  wasRunInterrupted: vi.fn(() => false),
+}));
+
+/** Local timestamp on 10 March 2025 (day 10) or a later day */
+const at = (day: number, hours: number, minutes = 0) => new Date(2025, 2, day, hours, minutes).getTime();
+
+describe('applySchedule', () => {
+  let alarms: Map<string, chrome.alarms.AlarmCreateInfo>;
+
+  beforeEach(() => {
+    alarms = new Map();
+    vi.stubGlobal('chrome', {
+      alarms: {
+        clear: vi.fn(async (name: string) => alarms.delete(name)),
+        create: vi.fn((name: string, info: chrome.alarms.AlarmCreateInfo) => alarms.set(name, info)),
+      },
+    });
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.mocked(getState).mockReturnValue({ running: false, jobs: [] } as never);
+  });
+
+  const daily: ScheduleSettings = { enabled: true, startTime: '01:00', endTime: '05:00', repeatDaily: true };
+
+  it('arms the next window outside a window', async () => {
+    vi.setSystemTime(at(10, 18));
+    await applySchedule(daily);
+    expect(alarms.get('sbg-schedule-start')).toEqual({ when: at(11, 1), periodInMinutes: 1440 });
+    expect(alarms.get('sbg-schedule-end')).toEqual({ when: at(11, 5), periodInMinutes: 1440 });
+  });
+
+  it("keeps today's end when the schedule is saved inside the window", async () => {
+    vi.setSystemTime(at(10, 2, 30));
+    await applySchedule({ ...daily, endTime: '06:00' });
+    expect(alarms.get('sbg-schedule-start')).toEqual({ when: at(11, 1), periodInMinutes: 1440 });
+    expect(alarms.get('sbg-schedule-end')).toEqual({ when: at(10, 6), periodInMinutes: 1440 });
+  });
+
+  it('keeps the end of a window that crossed midnight', async () => {
+    vi.setSystemTime(at(11, 1));
+    await applySchedule({ ...daily, startTime: '22:00', endTime: '02:00' });
+    expect(alarms.get('sbg-schedule-start')?.when).toBe(at(11, 22));
+    expect(alarms.get('sbg-schedule-end')?.when).toBe(at(11, 2));
+  });
+
+  it('ends a one-off window today only while the queue runs in it', async () => {
+    const oneOff = { ...daily, repeatDaily: false };
+    vi.setSystemTime(at(10, 2));
+    await applySchedule(oneOff);
+    expect(alarms.get('sbg-schedule-end')).toEqual({ when: at(11, 5), periodInMinutes: undefined });
+
+    vi.mocked(getState).mockReturnValue({ running: true, jobs: [] } as never);
+    await applySchedule(oneOff);
+    expect(alarms.get('sbg-schedule-end')).toEqual({ when: at(10, 5), periodInMinutes: undefined });
+  });
+
+  it('clears both alarms when disabled', async () => {
+    vi.setSystemTime(at(10, 2));
+    await applySchedule(daily);
+    await applySchedule({ ...daily, enabled: false });
+    expect(alarms.size).toBe(0);
+  });
+});
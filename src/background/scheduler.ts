@@ -0,0 +1,161 @@
+import type { ScheduleSettings } from '../types/messages';
+import {
+  emitLog,
+  getSettings,
+  getState,
+  pauseQueue,
+  startQueue,
+  stateRestored,
+  updateSettings,
+  wasRunInterrupted,
+} from './queue-coordinator';
+
+const ALARM_START = 'sbg-schedule-start';
+const ALARM_END = 'sbg-schedule-end';
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Start/pause the queue on chrome.alarms so large batches can run overnight
+ * or in off-peak windows. Alarms survive service worker restarts.
+ */
+export function initScheduler(): void {
+  chrome.alarms.onAlarm.addListener(async (alarm) => {
+    if (alarm.name !== ALARM_START && alarm.name !== ALARM_END) return;
+    // The alarm may have woken a stopped service worker: wait for the persisted queue and settings
+    await stateRestored;
+    if (alarm.name === ALARM_START) {
+      handleWindowStart();
+    } else {
+      handleWindowEnd();
+    }
+  });
+}
+
+/**
+ * After a service worker restart: keep the alarms that survived it (re-creating them
+ * would push today's window end to tomorrow), re-arm them if they are gone, and
+ * restart a queue the restart stopped in the middle of an open window.
+ */
+export async function restoreSchedule(): Promise<void> {
+  const schedule = getSettings().schedule;
+  if (!schedule.enabled) return;
+
+  const [start, end] = await Promise.all([chrome.alarms.get(ALARM_START), chrome.alarms.get(ALARM_END)]);
+  if (!start && !end) {
+    await applySchedule(schedule);
+    return;
+  }
+
+  // Inside a window when its end comes before the next start (or no further start is due)
+  const windowOpen = !!end && (!start || end.scheduledTime < start.scheduledTime);
+  if (windowOpen && wasRunInterrupted() && !getState().running) {
+    emitLog('info', '[Scheduler] Service worker restarted inside the scheduled window — restarting queue');
+    startQueue();
+  }
+}
+
+/** (Re)create the alarms for the given schedule, clearing them when disabled */
+export async function applySchedule(schedule: ScheduleSettings): Promise<void> {
+  await chrome.alarms.clear(ALARM_START);
+  await chrome.alarms.clear(ALARM_END);
+
+  if (!schedule.enabled) return;
+
+  const startAt = nextOccurrence(schedule.startTime, Date.now());
+  if (startAt === null) {
+    emitLog('error', `[Scheduler] Invalid start time "${schedule.startTime}"`);
+    return;
+  }
+  const periodInMinutes = schedule.repeatDaily ? MINUTES_PER_DAY : undefined;
+  chrome.alarms.create(ALARM_START, { when: startAt, periodInMinutes });
+
+  let endAt: number | null = null;
+  if (schedule.endTime) {
+    // The window may cross midnight, so the end is the first occurrence after the start.
+    // Saved inside a window that is in effect, the end is today's: the window still has to close.
+    const openEnd = currentWindowEnd(schedule, startAt);
+    endAt = openEnd !== null && (schedule.repeatDaily || getState().running)
+      ? openEnd
+      : nextOccurrence(schedule.endTime, startAt);
+    if (endAt === null) {
+      emitLog('error', `[Scheduler] Invalid end time "${schedule.endTime}"`);
+    } else {
+      chrome.alarms.create(ALARM_END, { when: endAt, periodInMinutes });
+    }
+  }
+
+  emitLog(
+    'info',
+    `[Scheduler] Queue will start ${formatTime(startAt)}` +
+    (endAt !== null ? ` and pause ${formatTime(endAt)}` : '') +
+    (schedule.repeatDaily ? ' (daily)' : ''),
+  );
+}
+
+function handleWindowStart(): void {
+  const schedule = getSettings().schedule;
+  const hasPending = getState().jobs.some(j => j.status === 'pending');
+
+  if (!hasPending) {
+    emitLog('info', '[Scheduler] Window started but no pending jobs — nothing to run');
+  } else if (getState().running) {
+    emitLog('info', '[Scheduler] Window started — queue already running');
+  } else {
+    emitLog('info', '[Scheduler] Window started — starting queue');
+    startQueue();
+  }
+
+  if (!schedule.repeatDaily && !schedule.endTime) finishOneOffSchedule(schedule);
+}
+
+function handleWindowEnd(): void {
+  const schedule = getSettings().schedule;
+
+  if (getState().running) {
+    emitLog('info', '[Scheduler] Window ended — pausing queue (in-flight jobs will finish)');
+    pauseQueue();
+  } else {
+    emitLog('info', '[Scheduler] Window ended — queue was not running');
+  }
+
+  if (!schedule.repeatDaily) finishOneOffSchedule(schedule);
+}
+
+/** A one-off window has fired its last alarm: switch the schedule off so it does not re-arm */
+function finishOneOffSchedule(schedule: ScheduleSettings): void {
+  const finished = { ...schedule, enabled: false };
+  updateSettings({ schedule: finished });
+  // Clears an alarm re-armed by restoreSchedule() while this one was waking the worker
+  applySchedule(finished);
+  emitLog('info', '[Scheduler] One-off schedule finished and disabled');
+}
+
+/**
+ * End of the window that is open right now (started at the occurrence of the start time
+ * before nextStart and not ended yet), or null when now is outside every window
+ */
+function currentWindowEnd(schedule: ScheduleSettings, nextStart: number): number | null {
+  if (!schedule.endTime) return null;
+  const lastStart = new Date(nextStart);
+  lastStart.setDate(lastStart.getDate() - 1);
+  const end = nextOccurrence(schedule.endTime, lastStart.getTime());
+  return end !== null && end > Date.now() && end <= nextStart ? end : null;
+}
+
+/** Next timestamp after `from` matching a local 'HH:MM' time of day, or null if malformed */
+function nextOccurrence(time: string, from: number): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  const date = new Date(from);
+  date.setHours(hours, minutes, 0, 0);
+  if (date.getTime() <= from) date.setDate(date.getDate() + 1);
+  return date.getTime();
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
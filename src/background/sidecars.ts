@@ -0,0 +1,90 @@
+import { DOWNLOAD_CONFLICT_ACTION } from '../config/constants';
+import type { Job, JobClip } from '../types/job';
+import type { Settings } from '../types/messages';
+import { trackJobDownload } from './download-manager';
+import { saveToDirectory } from './directory-writer';
+import { emitLog } from './queue-coordinator';
+
+/**
+ * Final path of each clip's primary audio file, by clip ID, for sidecars that arrive
+ * after the audio (.lrc from the content script). Resolves once Chrome has settled
+ * the name, which conflict handling may have uniquified.
+ */
+const audioPaths = new Map<string, Promise<string>>();
+
+export function rememberAudioPath(clipId: string, path: Promise<string>): void {
+  audioPaths.set(clipId, path);
+}
+
+/** Final audio path of the clip, or the requested one when it is unknown (e.g. after a worker restart) */
+export function audioPathOf(clipId: string, requestedPath: string): Promise<string> {
+  return audioPaths.get(clipId) ?? Promise.resolve(requestedPath);
+}
+
+/**
+ * Optional files written next to a clip's audio: cover art, lyrics (.txt) and
+ * a metadata .json. They share the audio file's path and name, differing only
+ * in extension, so they sort together in any file browser. audioPath must be
+ * the name the audio was actually saved under, not the requested one.
+ */
+export function writeSidecars(
+  audioPath: string,
+  settings: Settings,
+  info: { clipId: string; title: string; job?: Job; clip?: JobClip },
+): void {
+  const { sidecars } = settings;
+  if (!sidecars) return;
+
+  const basePath = stripExtension(audioPath);
+  const { clipId, title, job, clip } = info;
+
+  if (sidecars.cover && clip?.imageUrl) {
+    const ext = clip.imageUrl.match(/\.(jpe?g|png|webp)(\?|$)/i)?.[1]?.toLowerCase() ?? 'jpg';
+    saveSidecar(clip.imageUrl, `${basePath}.${ext}`, job?.id);
+  }
+
+  if (sidecars.lyrics && job?.input.lyrics && !job.input.instrumental) {
+    saveSidecar(textUrl(job.input.lyrics, 'text/plain'), `${basePath}.txt`, job.id);
+  }
+
+  if (sidecars.metadata) {
+    const metadata = {
+      clipId,
+      title,
+      sunoUrl: `https://suno.com/song/${clipId}`,
+      model: clip?.model,
+      tags: clip?.tags,
+      duration: clip?.duration,
+      createdAt: clip?.createdAt,
+      audioFile: audioPath.split('/').pop(),
+      input: job?.input,
+    };
+    saveSidecar(textUrl(JSON.stringify(metadata, null, 2), 'application/json'), `${basePath}.json`, job?.id);
+  }
+}
+
+/** Save text generated elsewhere (e.g. .lrc from the content script) next to the clip's audio */
+export function saveTextSidecar(audioPath: string, extension: string, text: string, mime: string, jobId?: string): void {
+  saveSidecar(textUrl(text, mime), `${stripExtension(audioPath)}.${extension}`, jobId);
+}
+
+function stripExtension(path: string): string {
+  return path.replace(/\.[^./]+$/, '');
+}
+
+async function saveSidecar(url: string, filename: string, jobId?: string): Promise<void> {
+  if (await saveToDirectory(url, filename)) return;
+
+  chrome.downloads.download({ url, filename, saveAs: false, conflictAction: DOWNLOAD_CONFLICT_ACTION }, (downloadId) => {
+    if (chrome.runtime.lastError || downloadId === undefined) {
+      emitLog('warn', `Could not save ${filename.split('/').pop()}: ${chrome.runtime.lastError?.message ?? 'unknown error'}`);
+      return;
+    }
+    // Tracked for cancellation only; sidecars do not gate job completion
+    if (jobId) trackJobDownload(jobId, downloadId);
+  });
+}
+
+function textUrl(text: string, mime: string): string {
+  return `data:${mime};charset=utf-8,${encodeURIComponent(text)}`;
+}
@@ -1,3 +1,5 @@
+import type { DownloadFormat } from '../types/job';
+
 /** Default delay between songs in ms */
 export const DEFAULT_DELAY_BETWEEN_SONGS = 5_000;
 
@@ -7,6 +9,35 @@ export const DEFAULT_GENERATION_TIMEOUT = 300_000;
 /** Default max retries per job */
 export const DEFAULT_MAX_RETRIES = 3;
 
+/** Default number of jobs kept in flight (triggered but not yet finished) */
+export const DEFAULT_MAX_CONCURRENT_JOBS = 3;
+
+/** Watchdog limit for the trigger phase (filling + creating) */
+export const TRIGGER_PHASE_TIMEOUT = 90_000;
+
+/** Watchdog limit for the downloading phase */
+export const DOWNLOAD_PHASE_TIMEOUT = 180_000;
+
+/** Automatic retries (resume or fresh download) for an interrupted file */
+export const MAX_DOWNLOAD_RETRIES = 3;
+
+/** chrome.downloads never overwrites; templates keep names distinct, this covers reruns and retries */
+export const DOWNLOAD_CONFLICT_ACTION = 'uniquify' as const;
+
+/** Suno's field limits; longer input is cut off, so imports warn about it */
+export const MAX_TITLE_LENGTH = 80;
+export const MAX_STYLE_LENGTH = 1000;
+export const MAX_LYRICS_LENGTH = 5000;
+
+/** Title given to songs imported without one */
+export const UNTITLED_SONG = 'Untitled';
+
+/** Most jobs one template row may expand to (matrix combinations × repeat) */
+export const MAX_TEMPLATE_JOBS = 200;
+
+/** Extra time the watchdog allows on top of the content script's own polling timeout */
+export const WATCHDOG_GRACE = 60_000;
+
 /** Polling interval for generation completion check */
 export const GENERATION_POLL_INTERVAL = 3_000;
 
@@ -28,5 +59,50 @@ export const STORAGE_KEY_QUEUE = 'suno_batch_queue';
 /** Storage key for settings */
 export const STORAGE_KEY_SETTINGS = 'suno_batch_settings';
 
-/** Default download format */
-export const DEFAULT_DOWNLOAD_FORMAT = 'mp3';
+/** Default schedule (off; one-off window starting at 1 AM) */
+export const DEFAULT_SCHEDULE = {
+  enabled: false,
+  startTime: '01:00',
+  repeatDaily: false,
+};
+
+/** Default file name for downloaded clips; see utils/download-path.ts for the tokens */
+export const DEFAULT_FILENAME_TEMPLATE = '{title} ({index})';
+
+/** Default download folder, relative to the browser's Downloads folder */
+export const DEFAULT_FOLDER_TEMPLATE = '{downloadPath}/{folder}';
+
+/**
+ * Default ID3 tagging of MP3 downloads (off: tagging fetches each MP3 a second time into
+ * the service worker; artist/album come from the clip and job)
+ */
+export const DEFAULT_ID3_SETTINGS = {
+  enabled: false,
+};
+
+/** Largest MP3 (and cover) fetched for tagging; bigger files are saved untagged */
+export const MAX_ID3_AUDIO_BYTES = 40 * 1024 * 1024;
+
+/** Time allowed to fetch an MP3 and its cover for tagging before saving it untagged */
+export const ID3_FETCH_TIMEOUT = 30_000;
+
+/** Default sidecar files written next to each clip (all off) */
+export const DEFAULT_SIDECAR_SETTINGS = {
+  cover: false,
+  lyrics: false,
+  metadata: false,
+  lrc: false,
+  enhancedLrc: false,
+};
+
+/** Default direct folder output (off: files go through chrome.downloads; names are made unique like Chrome does) */
+export const DEFAULT_OUTPUT_DIRECTORY_SETTINGS = {
+  enabled: false,
+  onConflict: 'uniquify' as const,
+};
+
+/** Default download formats */
+export const DEFAULT_DOWNLOAD_FORMATS: DownloadFormat[] = ['mp3'];
+
+/** Every format a clip can be saved in, in the order they are downloaded */
+export const ALL_DOWNLOAD_FORMATS: DownloadFormat[] = ['mp3', 'wav', 'mp4'];
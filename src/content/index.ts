@@ -1,8 +1,12 @@
 import type { BgToContentMessage, JobProgressMessage, LibrarySong } from '../types/messages';
-import { triggerJob, monitorJob, abortJob, testDownloadLastGeneratedSong, fetchLibrarySongs } from './suno-automation';
+import { triggerJob, monitorJob, abortJob, abortApiRun, isAborted, testDownloadLastGeneratedSong, fetchLibrarySongs } from './suno-automation';
 
 console.log('[Suno Batch Generator] Content script loaded on', window.location.href);
 
+// Jobs currently being monitored here. The background re-issues MONITOR_JOB after a
+// service worker restart; the monitor already running keeps reporting progress instead.
+const activeMonitors = new Set<string>();
+
 // Request Interceptor Injection via Background (to bypass CSP)
 chrome.runtime.sendMessage({
   type: 'EXEC_IN_PAGE',
@@ -38,8 +42,11 @@ chrome.runtime.onMessage.addListener(
         break;
 
       case 'ABORT_JOB':
+        // Without a job ID the queue was stopped: the API generation run stops too
         if (message.payload?.jobId) {
           abortJob(message.payload.jobId);
+        } else {
+          abortApiRun();
         }
         sendResponse({ ack: true });
         break;
@@ -76,8 +83,7 @@ chrome.runtime.onMessage.addListener(
       case 'GENERATE_VIA_API':
         console.log('[SBG] GENERATE_VIA_API requested', message.payload);
         import('./suno-automation').then(mod => {
-          mod.resetCycle(); // Ensure clean state if needed
-          mod.generateSongsFromApi(message.payload.jobs);
+          mod.generateSongsFromApi(message.payload.jobs, message.payload.generationTimeout);
         });
         sendResponse({ started: true });
         break;
@@ -109,7 +115,9 @@ async function handleTriggerJob(message: Extract<BgToContentMessage, { type: 'TR
   } catch (err) {
     chrome.runtime.sendMessage({
       type: 'JOB_PROGRESS',
-      payload: { jobId: job.id, status: 'failed', error: (err as Error).message },
+      payload: isAborted(job.id)
+        ? { jobId: job.id, status: 'aborted' }
+        : { jobId: job.id, status: 'failed', error: (err as Error).message, errorCode: (err as any).code },
     } as JobProgressMessage);
   }
 }
@@ -117,6 +125,12 @@ async function handleTriggerJob(message: Extract<BgToContentMessage, { type: 'TR
 async function handleMonitorJob(message: Extract<BgToContentMessage, { type: 'MONITOR_JOB' }>) {
   const { job, settings, songIds } = message.payload;
 
+  if (activeMonitors.has(job.id)) {
+    console.log(`[SBG] Job ${job.id} is already being monitored — ignoring duplicate MONITOR_JOB`);
+    return;
+  }
+  activeMonitors.add(job.id);
+
   try {
     await monitorJob(job, settings, songIds, (status, error) => {
       chrome.runtime.sendMessage({
@@ -127,8 +141,17 @@ async function handleMonitorJob(message: Extract<BgToContentMessage, { type: 'MO
   } catch (err) {
     chrome.runtime.sendMessage({
       type: 'JOB_PROGRESS',
-      payload: { jobId: job.id, status: 'failed', error: (err as Error).message },
+      payload: isAborted(job.id)
+        ? { jobId: job.id, status: 'aborted' }
+        : {
+          jobId: job.id,
+          status: (err as any).code === 'polling-timeout' ? 'timedOut' : 'failed',
+          error: (err as Error).message,
+          errorCode: (err as any).code,
+        },
     } as JobProgressMessage);
+  } finally {
+    activeMonitors.delete(job.id);
   }
 }
 
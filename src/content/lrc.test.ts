@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { alignedWordsToLrc, type AlignedWord } from './lrc';
+
+const words: AlignedWord[] = [
+  { word: '[Verse]\n', start_s: 0, end_s: 0 },
+  { word: 'Hello ', start_s: 1.5, end_s: 2 },
+  { word: 'world\n', start_s: 2.25, end_s: 3 },
+  { word: 'mumble ', start_s: 3.5, end_s: 4, success: false },
+  { word: 'Again ', start_s: 65.004, end_s: 66 },
+  { word: 'now', start_s: 66.5, end_s: 67.12 },
+];
+
+describe('alignedWordsToLrc', () => {
+  it('writes one stamped line per lyric line, without section markers or unaligned words', () => {
+    expect(alignedWordsToLrc(words, { title: 'Song' }, false)).toBe([
+      '[ti:Song]',
+      '[re:Suno Batch Generator]',
+      '[00:01.50]Hello world',
+      '[01:05.00]Again now',
+      '',
+    ].join('\n'));
+  });
+
+  it('stamps every word in enhanced mode and closes each line with its end time', () => {
+    const lrc = alignedWordsToLrc(words, { title: 'Song' }, true);
+    expect(lrc?.split('\n').slice(2, 4)).toEqual([
+      '[00:01.50] <00:01.50> Hello <00:02.25> world <00:03.00>',
+      '[01:05.00] <01:05.00> Again <01:06.50> now <01:07.12>',
+    ]);
+  });
+
+  it('fills artist and length in the header', () => {
+    const lrc = alignedWordsToLrc(words, { title: 'Song', artist: 'Me', duration: 125.6 }, false);
+    expect(lrc?.split('\n').slice(0, 4)).toEqual(['[ti:Song]', '[ar:Me]', '[length:02:06]', '[re:Suno Batch Generator]']);
+  });
+
+  it('returns null when nothing can be synced', () => {
+    expect(alignedWordsToLrc([], { title: 'Song' }, false)).toBeNull();
+    expect(alignedWordsToLrc([{ word: '[Intro]\n', start_s: 0, end_s: 1 }], { title: 'Song' }, false)).toBeNull();
+  });
+});
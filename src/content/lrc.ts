@@ -0,0 +1,68 @@
+/**
+ * LRC conversion for Suno's word-aligned lyrics
+ * (studio-api /api/gen/{id}/aligned_lyrics/v2/).
+ */
+
+export interface AlignedWord {
+  word: string;
+  start_s: number;
+  end_s: number;
+  success?: boolean;
+}
+
+export interface LrcHeader {
+  title: string;
+  artist?: string;
+  /** Seconds */
+  duration?: number;
+}
+
+/**
+ * Build LRC from aligned words: one timestamped line per lyric line, or with
+ * `enhanced`, a <mm:ss.xx> stamp before every word. Section markers such as
+ * [Verse] are dropped. Returns null when there is nothing usable to sync.
+ */
+export function alignedWordsToLrc(words: AlignedWord[], header: LrcHeader, enhanced: boolean): string | null {
+  const lines: AlignedWord[][] = [];
+  let current: AlignedWord[] = [];
+
+  for (const w of words) {
+    const text = w.word.trim();
+    if (text && !/^\[.*\]$/.test(text) && w.success !== false) current.push({ ...w, word: text });
+    if (w.word.includes('\n') && current.length > 0) {
+      lines.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) lines.push(current);
+  if (lines.length === 0) return null;
+
+  const body = lines.map((line) => {
+    const stamp = `[${formatTime(line[0].start_s)}]`;
+    if (!enhanced) return `${stamp}${line.map((w) => w.word).join(' ')}`;
+    const timed = line.map((w) => `<${formatTime(w.start_s)}> ${w.word}`).join(' ');
+    return `${stamp} ${timed} <${formatTime(line[line.length - 1].end_s)}>`;
+  });
+
+  return [...headerLines(header), ...body].join('\n') + '\n';
+}
+
+function headerLines(header: LrcHeader): string[] {
+  const lines = [`[ti:${header.title}]`];
+  if (header.artist) lines.push(`[ar:${header.artist}]`);
+  if (header.duration) {
+    const total = Math.round(header.duration);
+    lines.push(`[length:${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}]`);
+  }
+  lines.push('[re:Suno Batch Generator]');
+  return lines;
+}
+
+/** Seconds as mm:ss.xx */
+function formatTime(seconds: number): string {
+  const centis = Math.max(0, Math.round(seconds * 100));
+  const mm = Math.floor(centis / 6000);
+  const ss = Math.floor((centis % 6000) / 100);
+  const xx = centis % 100;
+  return `${String(mm).padStart(2, '0')}:${String(ss).padStart(2, '0')}.${String(xx).padStart(2, '0')}`;
+}
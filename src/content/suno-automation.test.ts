@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { abortApiRun, abortJob, generateSongsFromApi, isAborted } from './suno-automation';
+
+const GENERATE_URL = 'https://studio-api.prod.suno.com/api/generate/v2-web/';
+
+describe('generateSongsFromApi', () => {
+  let polls: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    polls = 0;
+    vi.stubGlobal('chrome', {
+      runtime: {
+        sendMessage: vi.fn(async (message: { type: string }) =>
+          message.type === 'EXEC_IN_PAGE' ? { token: 'token', source: 'test' } : undefined),
+      },
+    });
+    // The clip never finishes, so only an abort (or the timeout) ends the polling
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url === GENERATE_URL) return Response.json({ id: 'batch', clips: [{ id: 'clip-1' }] });
+      polls++;
+      return Response.json({ status: 'queued' });
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('stops polling when the queue is stopped during the run', async () => {
+    const run = generateSongsFromApi([{ title: 'Song', prompt: 'la', tags: 'pop' }]);
+    await vi.advanceTimersByTimeAsync(6_000);
+    expect(polls).toBe(3);
+
+    // stopQueue sends ABORT_JOB without a job ID, which aborts the run
+    abortApiRun();
+    await vi.advanceTimersByTimeAsync(3_000);
+    await run;
+    expect(polls).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(polls).toBe(3);
+  });
+
+  it('stops polling a clip after the configured generation timeout', async () => {
+    const run = generateSongsFromApi([{ title: 'Song', prompt: 'la', tags: 'pop' }], 10_000);
+    await vi.advanceTimersByTimeAsync(12_000);
+    await run;
+    // Polled at 0, 3, 6 and 9 s; at 12 s the 10 s limit has passed
+    expect(polls).toBe(4);
+  });
+
+  it('keeps the abort flags of queue jobs when a run starts', async () => {
+    abortJob('queue-job');
+    const run = generateSongsFromApi([{ id: 'api-job', title: 'Song' }]);
+    abortApiRun();
+    await vi.advanceTimersByTimeAsync(3_000);
+    await run;
+    expect(isAborted('queue-job')).toBe(true);
+  });
+});
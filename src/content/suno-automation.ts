@@ -1,15 +1,18 @@
-import type { Job } from '../types/job';
+import type { ClipFile, DownloadFormat, Job, JobClip, JobErrorCode } from '../types/job';
 import type { Settings } from '../types/messages';
-import { POST_CREATE_DELAY } from '../config/constants';
+import { DEFAULT_GENERATION_TIMEOUT, POST_CREATE_DELAY } from '../config/constants';
 import { clickElement, delay, fillInput, getClerkToken } from './dom-utils';
 import { resolveSelectorWithWait } from './selectors-runtime';
+import { alignedWordsToLrc } from './lrc';
 // import { monitorGeneration } from './generation-monitor'; // Removed
 
 
 export type ProgressCallback = (status: string, error?: string) => void;
 
 let abortedJobs = new Set<string>();
-let running = false;
+
+/** Job IDs of the API generation run in progress (empty when idle) */
+const apiRunJobIds = new Set<string>();
 
 // Version Stamp for Verification
 console.log('[SBG] Automation Logic Iteration 15 Loaded (XPath + Exclusions)');
@@ -18,10 +21,45 @@ export function abortJob(jobId: string): void {
   abortedJobs.add(jobId);
 }
 
-function isAborted(jobId: string): boolean {
+/** Abort every job of the API generation run in progress */
+export function abortApiRun(): void {
+  apiRunJobIds.forEach((id) => abortedJobs.add(id));
+}
+
+export function isAborted(jobId: string): boolean {
   return abortedJobs.has(jobId);
 }
 
+/** Report per-clip progress so the background can track each clip of a job separately */
+function reportClip(
+  jobId: string,
+  clipId: string,
+  updates: Partial<Omit<JobClip, 'id' | 'files'>>,
+  files?: Partial<Record<DownloadFormat, Partial<ClipFile>>>,
+): void {
+  chrome.runtime.sendMessage({
+    type: 'CLIP_PROGRESS',
+    payload: { jobId, clipId, updates, files },
+  }).catch(() => { });
+}
+
+/** Requested formats of a clip that are neither saved nor still being saved by an earlier run */
+function pendingFormats(clip: JobClip | undefined, formats: DownloadFormat[]): DownloadFormat[] {
+  // Clips saved before per-format tracking only record the clip status
+  if (clip?.status === 'downloaded' && !clip.files) return [];
+  return formats.filter((format) => {
+    const file = clip?.files?.[format];
+    if (!file) return true;
+    if (file.status === 'downloaded' || file.status === 'skipped') return false;
+    return !(file.downloadId !== undefined && (file.status === 'downloading' || file.status === 'interrupted'));
+  });
+}
+
+/** Error tagged with its failure class so the background can apply the matching retry policy */
+export function jobError(code: JobErrorCode, message: string): Error & { code: JobErrorCode } {
+  return Object.assign(new Error(message), { code });
+}
+
 
 /**
  * Step A: Fill form and click Create. Returns intercepted Song IDs.
@@ -55,7 +93,7 @@ export async function triggerJob(
   if (!job.input.instrumental && job.input.lyrics) {
     log('Filling lyrics...');
     const lyricsEl = await resolveSelectorWithWait('lyricsInput');
-    if (!lyricsEl) throw new Error('Could not find lyrics input');
+    if (!lyricsEl) throw jobError('selector-not-found', 'Could not find lyrics input');
     await fillInput(lyricsEl, job.input.lyrics);
     if (isAborted(job.id)) throw new Error('Job aborted');
   }
@@ -75,7 +113,7 @@ export async function triggerJob(
   onProgress('creating');
 
   const createBtn = await resolveSelectorWithWait('createButton');
-  if (!createBtn) throw new Error('Could not find Create button');
+  if (!createBtn) throw jobError('selector-not-found', 'Could not find Create button');
 
   // Start listening for intercept BEFORE clicking
   const interceptPromise = waitForGenerationIntercept(30000);
@@ -89,7 +127,7 @@ export async function triggerJob(
     songIds = await interceptPromise;
     log(`Intercepted Song IDs: ${songIds.join(', ')}`);
   } catch (e: any) {
-    throw new Error(`Failed to capture generation request: ${e.message}`);
+    throw jobError(e.code ?? 'intercept-timeout', `Failed to capture generation request: ${e.message}`);
   }
 
   if (isAborted(job.id)) throw new Error('Job aborted');
@@ -106,32 +144,53 @@ export async function monitorJob(
   songIds: string[],
   onProgress: ProgressCallback,
 ): Promise<void> {
-  if (isAborted(job.id)) throw new Error('Job aborted');
+  // A new MONITOR_JOB (retry, manual download) starts clean; an abort only applies to the run it was sent to
+  abortedJobs.delete(job.id);
 
   // Step 4: WAIT (Poll API)
   log(`Waiting for generation to complete (API polling) for job ${job.id}...`);
   onProgress('waiting');
 
+  // Formats saved (or still being saved) by an earlier run are left alone, so a retry only fetches what is missing
+  const formats: DownloadFormat[] = settings.downloadFormats?.length ? settings.downloadFormats : ['mp3'];
+  const pending = new Map(songIds.map(id => [id, pendingFormats(job.clips?.find(c => c.id === id), formats)]));
+  const missingIds = songIds.filter(id => pending.get(id)!.length > 0);
+  if (missingIds.length < songIds.length) {
+    log(`${songIds.length - missingIds.length} clip(s) already downloaded or in progress, ${missingIds.length} remaining`);
+  }
+
   const token = await getClerkToken();
-  if (!token) throw new Error('Could not get auth token for polling');
+  if (!token) throw jobError('auth-missing', 'Could not get auth token for polling');
 
-  // Map to store audio URLs from polling
-  const audioUrls = new Map<string, string | null>();
+  // Map to store audio and video URLs from polling
+  const mediaUrls = new Map<string, ClipMedia>();
 
-  // For WAV downloads, we must wait for 'complete' status, 'streaming' is not enough for conversion
-  const waitForComplete = settings.downloadFormat === 'wav';
+  // WAV conversion and the MP4 video need the 'complete' status, 'streaming' is only enough for MP3
+  const waitForComplete = formats.includes('wav') || formats.includes('mp4');
 
-  try {
-    const results = await Promise.all(songIds.map(id => pollForCompletion(job.id, id, token, waitForComplete)));
-    songIds.forEach((id, index) => {
-      audioUrls.set(id, results[index]);
-    });
-  } catch (e: any) {
+  // Clips settle independently: one can finish while the other errors
+  const results = await Promise.allSettled(missingIds.map(id => pollForCompletion(job.id, id, token, settings.generationTimeout, waitForComplete)));
+  if (isAborted(job.id)) throw new Error('Job aborted');
+
+  const readyIds: string[] = [];
+  results.forEach((result, index) => {
+    const id = missingIds[index];
+    if (result.status === 'fulfilled') {
+      mediaUrls.set(id, result.value);
+      readyIds.push(id);
+    } else {
+      const e = result.reason;
+      log(`❌ Clip ${id} failed: ${e.message}`);
+      reportClip(job.id, id, { status: 'failed', error: e.message, errorCode: e.code ?? 'unknown' });
+    }
+  });
+
+  if (missingIds.length > 0 && readyIds.length === 0) {
+    const e = (results[0] as PromiseRejectedResult).reason;
+    if (e.code) throw e;
     throw new Error(`Generation polling failed: ${e.message}`);
   }
 
-  if (isAborted(job.id)) throw new Error('Job aborted');
-
   // Step 5: DOWNLOAD
   log('Generation complete. Triggering downloads...');
   onProgress('downloading');
@@ -141,14 +200,34 @@ export async function monitorJob(
     log(`Using per-job download folder: ${downloadFolder}`);
   }
 
-  for (const songId of songIds) {
+  for (const songId of readyIds) {
     if (isAborted(job.id)) throw new Error('Job aborted');
-    try {
-      const audioUrl = audioUrls.get(songId);
-      await downloadSongViaAPI(songId, downloadFolder, job.input.title, audioUrl, settings.downloadFormat);
-      log(`✅ Download processed for ${songId}`);
-    } catch (e: any) {
-      log(`❌ Failed to download ${songId}: ${e.message}`);
+    const media = mediaUrls.get(songId) ?? { audioUrl: null, videoUrl: null };
+    const clipFormats = pending.get(songId)!;
+
+    // Register every format up front so the clip only settles once all of them have
+    reportClip(job.id, songId, {}, Object.fromEntries(clipFormats.map(f =>
+      [f, f === 'mp4' && !media.videoUrl ? { status: 'skipped', error: 'Clip has no video' } : { status: 'pending' }],
+    )));
+
+    let saved = 0;
+    for (const format of clipFormats) {
+      if (format === 'mp4' && !media.videoUrl) continue;
+      if (isAborted(job.id)) throw new Error('Job aborted');
+      try {
+        const url = format === 'mp4' ? media.videoUrl : media.audioUrl;
+        await downloadSongViaAPI(songId, downloadFolder, job.input.title, url, format, job.id);
+        log(`✅ ${format.toUpperCase()} download processed for ${songId}`);
+        saved++;
+      } catch (e: any) {
+        if (isAborted(job.id)) throw new Error('Job aborted');
+        log(`❌ Failed to download ${format.toUpperCase()} of ${songId}: ${e.message}`);
+        reportClip(job.id, songId, {}, { [format]: { status: 'failed', error: e.message } });
+      }
+    }
+
+    if (saved > 0 && settings.sidecars?.lrc && !job.input.instrumental) {
+      await exportLrc(job, songId, media, token, settings.sidecars.enhancedLrc);
     }
   }
 
@@ -156,16 +235,66 @@ export async function monitorJob(
   onProgress('completed');
 }
 
+/**
+ * Save the clip's lyrics as .lrc next to its audio from Suno's word alignment.
+ * Without an alignment no .lrc is written (players reject untimed ones; the
+ * lyrics .txt sidecar covers that case). Never fails the job.
+ */
+async function exportLrc(job: Job, songId: string, media: ClipMedia, token: string, enhanced: boolean): Promise<void> {
+  const header = { title: job.input.title, artist: media.artist, duration: media.duration };
+  let lrc: string | null = null;
+
+  try {
+    const res = await fetch(`https://studio-api.prod.suno.com/api/gen/${songId}/aligned_lyrics/v2/`, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+    if (res.ok) {
+      const data = await res.json();
+      if (Array.isArray(data?.aligned_words)) lrc = alignedWordsToLrc(data.aligned_words, header, enhanced);
+    } else {
+      log(`[LRC] Aligned lyrics for ${songId}: ${res.status}`);
+    }
+  } catch (e: any) {
+    log(`[LRC] Aligned lyrics request failed for ${songId}: ${e.message}`);
+  }
+
+  if (!lrc) {
+    log(`[LRC] No word alignment for ${songId}; skipping .lrc (enable the lyrics .txt sidecar for plain lyrics)`);
+    return;
+  }
+
+  chrome.runtime.sendMessage({
+    type: 'SAVE_SIDECAR',
+    payload: {
+      jobId: job.id,
+      clipId: songId,
+      title: job.input.title,
+      folder: job.input.downloadFolder,
+      extension: 'lrc',
+      mime: 'text/plain',
+      content: lrc,
+    },
+  }).catch(() => { });
+}
+
 // Interception Helper
 function waitForGenerationIntercept(timeoutMs: number): Promise<string[]> {
   return new Promise((resolve, reject) => {
     const timeout = setTimeout(() => {
       window.removeEventListener('SBG_API_INTERCEPT', handler as EventListener);
-      reject(new Error('Timeout waiting for generation network response'));
+      reject(jobError('intercept-timeout', 'Timeout waiting for generation network response'));
     }, timeoutMs);
 
     const handler = (event: CustomEvent) => {
       const { url, responseBody } = event.detail;
+      // Generate endpoint answered with an error instead of clips (credits, moderation, rate limit)
+      const rejection = classifyGenerateRejection(url, responseBody);
+      if (rejection) {
+        clearTimeout(timeout);
+        window.removeEventListener('SBG_API_INTERCEPT', handler as EventListener);
+        reject(rejection);
+        return;
+      }
       // Check if it's the generate endpoint
       // v2-web is the current one, but keeping generic check
       if ((url.includes('/api/generate/') || url.includes('/api/gen/')) && responseBody?.clips) {
@@ -182,11 +311,34 @@ function waitForGenerationIntercept(timeoutMs: number): Promise<string[]> {
   });
 }
 
+/** Map an error body from the generate endpoint to a tagged job error */
+function classifyGenerateRejection(url: string, responseBody: any): Error | null {
+  if (!url.includes('/api/generate/') || !responseBody || responseBody.clips) return null;
+  const detail = typeof responseBody.detail === 'string' ? responseBody.detail : JSON.stringify(responseBody);
+  const text = detail.toLowerCase();
+
+  if (text.includes('credit')) return jobError('out-of-credits', `Generation rejected: ${detail}`);
+  if (text.includes('moderat') || text.includes('policy') || text.includes('flagged')) {
+    return jobError('moderation-rejected', `Generation rejected: ${detail}`);
+  }
+  if (text.includes('too many') || text.includes('rate limit')) return jobError('rate-limited', `Generation rejected: ${detail}`);
+  if (typeof responseBody.detail === 'string') return jobError('unknown', `Generation rejected: ${detail}`);
+  return null;
+}
+
+interface ClipMedia {
+  audioUrl: string | null;
+  videoUrl: string | null;
+  /** Display name of the Suno creator */
+  artist?: string;
+  /** Seconds */
+  duration?: number;
+}
+
 // Polling Helper
-async function pollForCompletion(jobId: string, songId: string, token: string, waitForComplete: boolean = false): Promise<string | null> {
+async function pollForCompletion(jobId: string, songId: string, token: string, maxWait: number, waitForComplete: boolean = false): Promise<ClipMedia> {
   const headers = { 'Authorization': `Bearer ${token}` };
   const startTime = Date.now();
-  const maxWait = 300000; // 5 min
 
   while (Date.now() - startTime < maxWait) {
     if (isAborted(jobId)) throw new Error('Job aborted');
@@ -200,17 +352,33 @@ async function pollForCompletion(jobId: string, songId: string, token: string, w
         const clip = clips?.find((c: any) => c.id === songId);
 
         if (clip) {
-          if (clip.status === 'complete') {
-            log(`[SBG] Polling success: ${songId} is complete.`);
-            return clip.audio_url || null;
-          }
-          if (!waitForComplete && clip.status === 'streaming') {
-            log(`[SBG] Polling success: ${songId} is streaming (sufficient for MP3).`);
-            return clip.audio_url || null;
+          if (clip.status === 'complete' || (!waitForComplete && clip.status === 'streaming')) {
+            log(clip.status === 'complete'
+              ? `[SBG] Polling success: ${songId} is complete.`
+              : `[SBG] Polling success: ${songId} is streaming (sufficient for MP3).`);
+            reportClip(jobId, songId, {
+              status: 'ready',
+              audioUrl: clip.audio_url || undefined,
+              videoUrl: clip.video_url || undefined,
+              imageUrl: clip.image_large_url || clip.image_url || undefined,
+              artist: clip.display_name || undefined,
+              model: clip.model_name || clip.major_model_version || undefined,
+              tags: clip.metadata?.tags || undefined,
+              createdAt: clip.created_at || undefined,
+              duration: clip.metadata?.duration ?? undefined,
+            });
+            return {
+              audioUrl: clip.audio_url || null,
+              videoUrl: clip.video_url || null,
+              artist: clip.display_name || undefined,
+              duration: clip.metadata?.duration ?? undefined,
+            };
           }
 
           if (clip.status === 'error') {
-            throw new Error(`Song status is 'error'`);
+            const reason = clip.metadata?.error_message || clip.metadata?.error_type || '';
+            const moderated = /moderat|policy|flag/i.test(reason);
+            throw jobError(moderated ? 'moderation-rejected' : 'unknown', `Song status is 'error'${reason ? `: ${reason}` : ''}`);
           }
           log(`[SBG] Song ${songId} status: ${clip.status}...`);
         } else {
@@ -219,12 +387,13 @@ async function pollForCompletion(jobId: string, songId: string, token: string, w
       } else {
         log(`[SBG] Polling ${songId}: ${res.status} (retrying)`);
       }
-    } catch (e) {
+    } catch (e: any) {
+      if (e.code) throw e; // Tagged failures are final; network hiccups are retried
       console.log(`[SBG] Polling exception:`, e);
     }
     await delay(5000);
   }
-  throw new Error('Timeout waiting for song status');
+  throw jobError('polling-timeout', `Timeout waiting for song status after ${Math.round(maxWait / 1000)}s`);
 }
 
 
@@ -232,9 +401,10 @@ async function pollForCompletion(jobId: string, songId: string, token: string, w
 
 /**
  * Pure API-based download function.
- * If audioUrl is provided, we skip the convert_wav dance and use it directly.
+ * knownUrl is the clip's audio URL for MP3 (skipping the CDN guess) or its video URL for MP4.
+ * WAV always goes through the convert_wav dance and fails if Suno returns no file.
  */
-async function downloadSongViaAPI(songId: string, folder?: string, title?: string, knownAudioUrl?: string | null, format: 'mp3' | 'wav' = 'mp3'): Promise<void> {
+async function downloadSongViaAPI(songId: string, folder?: string, title?: string, knownUrl?: string | null, format: DownloadFormat = 'mp3', jobId?: string): Promise<void> {
   log(`[API Download] Starting for song: ${songId}. Format: ${format}`);
 
   // Step 0: Get Tokens
@@ -264,11 +434,14 @@ async function downloadSongViaAPI(songId: string, folder?: string, title?: strin
   // STRATEGY SELECTION
   if (format === 'mp3') {
     log(`[API Download] Format set to MP3 using known URL or CDN fallback.`);
-    if (knownAudioUrl) {
-      downloadUrl = knownAudioUrl;
+    if (knownUrl) {
+      downloadUrl = knownUrl;
     } else {
       downloadUrl = `https://cdn1.suno.ai/${songId}.mp3`;
     }
+  } else if (format === 'mp4') {
+    if (!knownUrl) throw jobError('download-failed', 'Clip has no video');
+    downloadUrl = knownUrl;
   } else {
     // WAV STRATEGY
     log('[API Download] Format set to WAV. Attempting conversion (via Background Proxy)...');
@@ -289,6 +462,7 @@ async function downloadSongViaAPI(songId: string, folder?: string, title?: strin
     // Step 2: Poll for wav_file URL
     const metaUrl = `https://studio-api.prod.suno.com/api/gen/${songId}/wav_file/`;
     for (let i = 0; i < 15; i++) { // Poll for up to 30s
+      if (jobId && isAborted(jobId)) throw new Error('Job aborted');
       try {
         const resp = await proxyRequest(metaUrl, 'GET', headers);
         if (resp.ok && resp.data) {
@@ -327,16 +501,14 @@ async function downloadSongViaAPI(songId: string, folder?: string, title?: strin
       log(`[API Download] Billing authorization failed: ${e}`);
     }
 
-    // Fallback: If polling failed, try manual construction
+    // A guessed URL would save a missing or wrong file under a .wav name
     if (!downloadUrl) {
-      log('[API Download] WAV URL not found in metadata. Guessing standard CDN URL...');
-      downloadUrl = `https://cdn1.suno.ai/${songId}.wav`;
+      throw jobError('download-failed', 'WAV conversion did not return a file URL');
     }
   }
 
   // Construct filename
-  let ext = format === 'wav' ? '.wav' : '.mp3';
-  if (format === 'wav' && !downloadUrl) ext = '.mp3';
+  const ext = `.${format}`;
 
   let filename = `suno-${songId}${ext}`;
   if (title) {
@@ -347,9 +519,11 @@ async function downloadSongViaAPI(songId: string, folder?: string, title?: strin
   }
 
   if (!downloadUrl) {
-    throw new Error('No download URL found');
+    throw jobError('download-failed', 'No download URL found');
   }
 
+  if (jobId && isAborted(jobId)) throw new Error('Job aborted');
+
   log(`[API Download] Final URL to fetch: ${downloadUrl}`);
 
   // Step 5: Trigger Download
@@ -360,13 +534,17 @@ async function downloadSongViaAPI(songId: string, folder?: string, title?: strin
       type: 'DOWNLOAD_WAV_FILE',
       url: downloadUrl, // Pass URL directly, let Chrome handle it
       filename: filename,
+      title,
       folder,
-      duration
+      duration,
+      jobId,
+      clipId: songId,
+      format,
     }, (res) => {
       if (res?.success) {
         resolve();
       } else {
-        reject(new Error(res?.error || 'Download failed'));
+        reject(jobError('download-failed', res?.error || 'Download failed'));
       }
     });
   });
@@ -451,7 +629,7 @@ async function fillTitleField(title: string): Promise<void> {
     }
   }
   if (!target) target = await resolveSelectorWithWait('titleInput');
-  if (!target) throw new Error('Could not find title input');
+  if (!target) throw jobError('selector-not-found', 'Could not find title input');
   await fillInput(target, title);
 }
 
@@ -489,7 +667,7 @@ async function fillStyleField(style: string): Promise<void> {
   // Strategy 3: Just resolve from config with wait
   if (!target) target = await resolveSelectorWithWait('styleInput', 5000);
 
-  if (!target) throw new Error('Could not find style input');
+  if (!target) throw jobError('selector-not-found', 'Could not find style input');
 
   const textarea = target as HTMLTextAreaElement;
   textarea.focus();
@@ -620,18 +798,22 @@ async function pageContextDiagnostics(): Promise<void> {
  * API-based Automation
  */
 
-export function resetCycle() {
-  running = false;
-  abortedJobs.clear();
+/** Drop abort flags a previous run left on these job IDs; other jobs' flags are kept */
+export function resetCycle(jobIds: string[]) {
+  jobIds.forEach((id) => abortedJobs.delete(id));
   log('[SBG] Cycle state reset.');
 }
 
-export async function generateSongsFromApi(jobs: any[]) {
-  if (running) {
+export async function generateSongsFromApi(jobs: any[], generationTimeout = DEFAULT_GENERATION_TIMEOUT) {
+  if (apiRunJobIds.size > 0) {
     log('[SBG] Already running a job. Stop it first.');
     return;
   }
-  running = true;
+  // Key every API job by ID so it can be cancelled through abortJob() like queue jobs
+  const runStamp = Date.now();
+  const jobIds: string[] = jobs.map((job, i) => job.id || `api-${runStamp}-${i}`);
+  resetCycle(jobIds);
+  jobIds.forEach((id) => apiRunJobIds.add(id));
   log(`[SBG] Starting API Generation for ${jobs.length} jobs...`);
 
   try {
@@ -650,11 +832,12 @@ export async function generateSongsFromApi(jobs: any[]) {
     log(`[SBG] Auth Token retrieved via ${tokenRes.source}.`);
 
     // 2. Process Jobs
-    for (const job of jobs) {
-      // Local abort check for API flow
-      // We don't have a jobId here, so we assume API flow cannot be aborted via abortJob(id) yet 
-      // unless we pass a jobId or check if running is false.
-      if (!running) throw new Error('Canceled');
+    for (const [index, job] of jobs.entries()) {
+      const jobId = jobIds[index];
+      if (isAborted(jobId)) {
+        log(`[SBG] Skipping aborted job: ${jobId}`);
+        continue;
+      }
       const { prompt, tags, title, mv, make_instrumental } = job;
       log(`[SBG] Generating: "${title || prompt}"...`);
 
@@ -711,10 +894,10 @@ export async function generateSongsFromApi(jobs: any[]) {
         const startTime = Date.now();
 
         while (true) {
-          if (!running) throw new Error('Canceled');
+          if (isAborted(jobId)) throw new Error('Job aborted');
 
-          // Timeout check (e.g., 5 minutes per clip)
-          if (Date.now() - startTime > 300000) {
+          // Timeout check (per clip)
+          if (Date.now() - startTime > generationTimeout) {
             log(`[SBG] Polling timed out for clip: ${clipId}`);
             break;
           }
@@ -745,7 +928,7 @@ export async function generateSongsFromApi(jobs: any[]) {
 
           if (pollData.status === 'streaming' || pollData.status === 'complete') {
             log(`[SBG] Clip ready: ${clipId}. Downloading...`);
-            await downloadSongViaAPI(clipId, 'API_Downloads', title || 'Untitled');
+            await downloadSongViaAPI(clipId, 'API_Downloads', title || 'Untitled', undefined, 'mp3', jobId);
             break;
           }
           if (pollData.status === 'error') {
@@ -756,8 +939,13 @@ export async function generateSongsFromApi(jobs: any[]) {
         }
       });
 
-      await Promise.all(downloadPromises);
-      log(`[SBG] Batch complete.`);
+      try {
+        await Promise.all(downloadPromises);
+        log(`[SBG] Batch complete.`);
+      } catch (e: any) {
+        if (!isAborted(jobId)) throw e;
+        log(`[SBG] Job aborted: ${jobId}`);
+      }
     }
 
     log('[SBG] All API jobs finished.');
@@ -765,7 +953,7 @@ export async function generateSongsFromApi(jobs: any[]) {
   } catch (e: any) {
     log(`[SBG] API Generation failed: ${e.message}`);
   } finally {
-    running = false;
+    jobIds.forEach((id) => apiRunJobIds.delete(id));
   }
 }
 
@@ -17,12 +17,15 @@ export default function App() {
   const {
     jobs,
     running,
+    paused,
     activeJobIds,
     library,
     settings,
     addJobs,
     start,
     stop,
+    pause,
+    resume,
     clear,
     updateSettings,
     completed,
@@ -79,7 +82,7 @@ export default function App() {
 
           <div className="flex flex-col gap-3 bg-gray-800/50 p-3 rounded-lg border border-gray-700/50">
             <div className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">Add Jobs</div>
-            <FileUploader onSongsLoaded={addJobs} disabled={running} />
+            <FileUploader onSongsLoaded={addJobs} queuedJobs={jobs} disabled={running} />
 
             <div className="relative flex items-center py-1">
               <div className="flex-grow border-t border-gray-700"></div>
@@ -101,9 +104,12 @@ export default function App() {
 
           <ControlBar
             running={running}
+            paused={paused}
             hasJobs={jobs.some((j) => j.status === 'pending')}
             onStart={start}
             onStop={stop}
+            onPause={pause}
+            onResume={resume}
             onClear={clear}
           />
 
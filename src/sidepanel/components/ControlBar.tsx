@@ -2,38 +2,63 @@ import React from 'react';
 
 interface Props {
   running: boolean;
+  paused: boolean;
   hasJobs: boolean;
   onStart: () => void;
   onStop: () => void;
+  onPause: () => void;
+  onResume: () => void;
   onClear: () => void;
 }
 
-export default function ControlBar({ running, hasJobs, onStart, onStop, onClear }: Props) {
+export default function ControlBar({ running, paused, hasJobs, onStart, onStop, onPause, onResume, onClear }: Props) {
   return (
-    <div className="flex gap-2">
-      {running ? (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        {running ? (
+          <button
+            onClick={onPause}
+            className="flex-1 px-3 py-2 bg-yellow-600 hover:bg-yellow-700 text-white rounded text-sm font-medium transition-colors"
+          >
+            Pause
+          </button>
+        ) : paused ? (
+          <button
+            onClick={onResume}
+            className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded text-sm font-medium transition-colors"
+          >
+            Resume
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={!hasJobs}
+            className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded text-sm font-medium transition-colors"
+          >
+            Start
+          </button>
+        )}
+        {(running || paused) && (
+          <button
+            onClick={onStop}
+            className="flex-1 px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded text-sm font-medium transition-colors"
+          >
+            Stop
+          </button>
+        )}
         <button
-          onClick={onStop}
-          className="flex-1 px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded text-sm font-medium transition-colors"
+          onClick={onClear}
+          disabled={running || paused}
+          className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 text-white rounded text-sm transition-colors"
         >
-          Stop
-        </button>
-      ) : (
-        <button
-          onClick={onStart}
-          disabled={!hasJobs}
-          className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded text-sm font-medium transition-colors"
-        >
-          Start
+          Clear
         </button>
+      </div>
+      {paused && (
+        <div className="text-xs text-yellow-400">
+          Paused — in-flight jobs keep generating and downloading.
+        </div>
       )}
-      <button
-        onClick={onClear}
-        disabled={running}
-        className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 text-white rounded text-sm transition-colors"
-      >
-        Clear
-      </button>
     </div>
   );
 }
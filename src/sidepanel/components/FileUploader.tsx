@@ -1,50 +1,79 @@
 import React, { useCallback, useRef, useState } from 'react';
-import { parseFile } from '../utils/file-validator';
-import type { SongInput } from '../../types/job';
+import { IMPORT_EXTENSIONS, formatImportError, readImportFile, type ParseResult, type ParsedSong } from '../utils/file-validator';
+import {
+  LYRICS_EXTENSIONS,
+  collectDroppedFiles,
+  filesFromInput,
+  isLyricsBatch,
+  parseLyricsFiles,
+  type DroppedFile,
+} from '../utils/lyrics-files';
+import type { Job, SongInput } from '../../types/job';
+import ImportPreview from './ImportPreview';
 
 interface Props {
   onSongsLoaded: (songs: SongInput[]) => void;
+  /** Current queue, so the preview can flag rows that are already queued */
+  queuedJobs: Job[];
   disabled: boolean;
 }
 
-export default function FileUploader({ onSongsLoaded, disabled }: Props) {
+export default function FileUploader({ onSongsLoaded, queuedJobs, disabled }: Props) {
   const inputRef = useRef<HTMLInputElement>(null);
   const [errors, setErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<{ fileName: string; rows: ParsedSong[] } | null>(null);
 
-  const handleFile = useCallback(
-    (file: File) => {
+  /** One songbook file, or a batch of lyric files (one song each) from several files or a folder */
+  const handleFiles = useCallback(
+    async (files: DroppedFile[]) => {
+      if (files.length === 0) return;
       setErrors([]);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        const { songs, errors: parseErrors } = parseFile(file.name, content);
-        if (parseErrors.length > 0) {
-          setErrors(parseErrors);
-        }
-        if (songs.length > 0) {
-          onSongsLoaded(songs);
-        }
-      };
-      reader.readAsText(file);
+      const lyricsBatch = isLyricsBatch(files);
+      const { songs, errors: parseErrors }: ParseResult = lyricsBatch
+        ? await parseLyricsFiles(files)
+        : await readImportFile(files[0].file);
+      if (parseErrors.length > 0) {
+        setErrors(parseErrors.map(formatImportError));
+      }
+      if (songs.length > 0) {
+        setPreview({ fileName: lyricsBatch ? batchName(files, songs.length) : files[0].file.name, rows: songs });
+      }
     },
-    [onSongsLoaded],
+    [],
   );
 
+  const handleEnqueue = (songs: SongInput[]) => {
+    onSongsLoaded(songs);
+    setPreview(null);
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) handleFile(file);
+    if (e.target.files) handleFiles(filesFromInput(e.target.files));
     if (inputRef.current) inputRef.current.value = '';
   };
 
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
-      const file = e.dataTransfer.files[0];
-      if (file) handleFile(file);
+      collectDroppedFiles(e.dataTransfer.items).then(handleFiles, (err) => {
+        setErrors([`Could not read the dropped files: ${(err as Error).message}`]);
+      });
     },
-    [handleFile],
+    [handleFiles],
   );
 
+  if (preview) {
+    return (
+      <ImportPreview
+        fileName={preview.fileName}
+        rows={preview.rows}
+        queuedJobs={queuedJobs}
+        onEnqueue={handleEnqueue}
+        onCancel={() => setPreview(null)}
+      />
+    );
+  }
+
   return (
     <div className="space-y-2">
       <div
@@ -54,13 +83,15 @@ export default function FileUploader({ onSongsLoaded, disabled }: Props) {
           ${disabled ? 'border-gray-700 text-gray-600 cursor-not-allowed' : 'border-gray-600 hover:border-blue-500 cursor-pointer text-gray-400 hover:text-gray-300'}`}
         onClick={() => !disabled && inputRef.current?.click()}
       >
-        <p className="text-sm">Drop JSON/CSV file here or click to browse</p>
-        <p className="text-xs mt-1 text-gray-500">Supports .json and .csv</p>
+        <p className="text-sm">Drop a song file, lyric files or a folder here, or click to browse</p>
+        <p className="text-xs mt-1 text-gray-500">Supports .json, .csv, .tsv, .yaml, .xlsx and Markdown (# Title per song)</p>
+        <p className="text-xs text-gray-500">Several .txt/.md files or a folder: one song per file, styles from a manifest.csv</p>
       </div>
       <input
         ref={inputRef}
         type="file"
-        accept=".json,.csv"
+        accept={[...new Set([...IMPORT_EXTENSIONS, ...LYRICS_EXTENSIONS])].map((ext) => `.${ext}`).join(',')}
+        multiple
         className="hidden"
         onChange={handleChange}
         disabled={disabled}
@@ -75,3 +106,10 @@ export default function FileUploader({ onSongsLoaded, disabled }: Props) {
     </div>
   );
 }
+
+/** Preview header for a lyrics batch: the dropped folder when there is just one */
+function batchName(files: DroppedFile[], songCount: number): string {
+  const folders = new Set(files.map((f) => (f.path.includes('/') ? f.path.split('/')[0] : '')));
+  const [folder] = folders;
+  return folders.size === 1 && folder ? `${folder}/ (${songCount} lyric files)` : `${songCount} lyric files`;
+}
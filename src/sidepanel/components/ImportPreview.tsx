@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import type { Job, SongInput } from '../../types/job';
+import { isSameSong, normalizeSong, songWarnings, toSongDraft, validateSong, type ParsedSong } from '../utils/file-validator';
+import JobEditor from './JobEditor';
+
+interface Props {
+  fileName: string;
+  rows: ParsedSong[];
+  /** Jobs already in the queue, to flag rows that would queue the same song again */
+  queuedJobs: Job[];
+  onEnqueue: (songs: SongInput[]) => void;
+  onCancel: () => void;
+}
+
+interface RowCheck {
+  error: string | null;
+  warnings: string[];
+  duplicate: boolean;
+}
+
+export default function ImportPreview({ fileName, rows, queuedJobs, onEnqueue, onCancel }: Props) {
+  const [drafts, setDrafts] = useState<SongInput[]>(() => rows.map((r) => toSongDraft(r.song)));
+  const checks = useMemo<RowCheck[]>(
+    () => drafts.map((song) => ({
+      error: validateSong(song),
+      warnings: songWarnings(song),
+      duplicate: queuedJobs.some((j) => isSameSong(j.input, song)),
+    })),
+    [drafts, queuedJobs],
+  );
+  // Valid rows start ticked, except those already queued
+  const [selected, setSelected] = useState<Set<number>>(
+    () => new Set(checks.flatMap((c, i) => (!c.error && !c.duplicate ? [i] : []))),
+  );
+  const [editing, setEditing] = useState<number | null>(null);
+  const [sharedStyle, setSharedStyle] = useState('');
+
+  const selectable = checks.flatMap((c, i) => (c.error ? [] : [i]));
+  const selectedValid = [...selected].filter((i) => !checks[i].error).sort((a, b) => a - b);
+  const invalidCount = checks.filter((c) => c.error).length;
+  const duplicateCount = checks.filter((c) => c.duplicate).length;
+  const missingStyle = drafts.filter((d) => !d.style.trim()).length;
+  // Expanded template rows share their source row
+  const templateCount = new Set(rows.filter((r) => r.variant !== undefined).map((r) => r.row)).size;
+
+  const toggle = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(selectedValid.length === selectable.length ? new Set() : new Set(selectable));
+  };
+
+  const handleSave = (index: number, song: SongInput) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? song : d)));
+    setSelected((prev) => new Set(prev).add(index));
+    setEditing(null);
+  };
+
+  /** Fill every row without a style (e.g. lyric files the manifest does not list) and tick those that became valid */
+  const applySharedStyle = () => {
+    const style = sharedStyle.trim();
+    const filled = drafts.map((d) => (d.style.trim() ? d : { ...d, style }));
+    setDrafts(filled);
+    setSelected((prev) => {
+      const next = new Set(prev);
+      filled.forEach((song, i) => {
+        if (!drafts[i].style.trim() && !validateSong(song) && !queuedJobs.some((j) => isSameSong(j.input, song))) next.add(i);
+      });
+      return next;
+    });
+  };
+
+  const handleEnqueue = () => {
+    onEnqueue(selectedValid.map((i) => normalizeSong(drafts[i])));
+  };
+
+  return (
+    <div className="border border-gray-700 rounded text-xs">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b border-gray-700 bg-gray-800/50">
+        <span className="text-gray-300 truncate mr-2" title={fileName}>{fileName}</span>
+        <span className="text-gray-500 whitespace-nowrap">
+          {templateCount > 0 ? `${rows.length} job(s) from ${templateCount} template(s)` : `${rows.length} row(s)`}
+          {invalidCount > 0 && <span className="text-red-400"> · {invalidCount} invalid</span>}
+          {duplicateCount > 0 && <span className="text-yellow-400"> · {duplicateCount} queued</span>}
+        </span>
+      </div>
+      {missingStyle > 0 && (
+        <div className="flex gap-2 px-2 py-1.5 border-b border-gray-700">
+          <input
+            value={sharedStyle}
+            onChange={(e) => setSharedStyle(e.target.value)}
+            placeholder={`Style for the ${missingStyle} row(s) without one`}
+            className="flex-1 min-w-0 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-xs text-gray-200"
+          />
+          <button
+            onClick={applySharedStyle}
+            disabled={!sharedStyle.trim()}
+            className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 text-gray-300 rounded transition-colors"
+          >
+            Apply
+          </button>
+        </div>
+      )}
+      <div className="max-h-72 overflow-y-auto">
+        <table className="w-full table-fixed">
+          <thead className="text-gray-500 text-[10px] text-left">
+            <tr>
+              <th className="w-6 px-1 py-1">
+                <input
+                  type="checkbox"
+                  checked={selectable.length > 0 && selectedValid.length === selectable.length}
+                  onChange={toggleAll}
+                  disabled={selectable.length === 0}
+                  title="Select all valid rows"
+                />
+              </th>
+              <th className="w-7 px-1 font-normal">Row</th>
+              <th className="px-1 font-normal">Song</th>
+              <th className="w-10 px-1 font-normal" />
+            </tr>
+          </thead>
+          <tbody>
+            {drafts.map((song, i) => {
+              const check = checks[i];
+              return (
+                <React.Fragment key={i}>
+                  <tr className={`border-t border-gray-700/50 align-top ${check.error ? 'bg-red-900/10' : ''}`}>
+                    <td className="px-1 py-1">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(i) && !check.error}
+                        onChange={() => toggle(i)}
+                        disabled={!!check.error}
+                      />
+                    </td>
+                    <td className="px-1 py-1 text-gray-500">{rows[i].row}</td>
+                    <td className="px-1 py-1 min-w-0">
+                      <div className="text-gray-200 truncate">{song.title?.trim() || <span className="italic text-gray-500">no title</span>}</div>
+                      {rows[i].source && <div className="text-gray-600 truncate" title={rows[i].source}>{rows[i].source}</div>}
+                      {rows[i].variant && <div className="text-blue-400/70 truncate" title={rows[i].variant}>{rows[i].variant}</div>}
+                      <div className="text-gray-500 truncate">
+                        {song.style}
+                        {song.instrumental ? ' (Instrumental)' : ` · ${song.lyrics?.trim().length ?? 0} chars of lyrics`}
+                      </div>
+                      {check.error && <div className="text-red-400">✕ {check.error}</div>}
+                      {check.warnings.map((w) => (
+                        <div key={w} className="text-yellow-500">⚠ {w}</div>
+                      ))}
+                      {check.duplicate && <div className="text-yellow-400">⚠ identical to a job already in the queue</div>}
+                    </td>
+                    <td className="px-1 py-1 text-right">
+                      <button
+                        onClick={() => setEditing(editing === i ? null : i)}
+                        className="text-gray-400 hover:text-gray-200"
+                        title="Fix this row"
+                      >
+                        ✎
+                      </button>
+                    </td>
+                  </tr>
+                  {editing === i && (
+                    <tr>
+                      <td colSpan={4} className="px-1 pb-2">
+                        <JobEditor input={song} onSave={(fixed) => handleSave(i, fixed)} onCancel={() => setEditing(null)} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex gap-2 p-2 border-t border-gray-700">
+        <button
+          onClick={handleEnqueue}
+          disabled={selectedValid.length === 0}
+          className="flex-1 px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded text-xs transition-colors"
+        >
+          Add {selectedValid.length} to queue
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
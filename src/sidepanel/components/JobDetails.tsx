@@ -0,0 +1,118 @@
+import type { AttemptPhase, ClipFile, ClipFileStatus, ClipStatus, DownloadFormat, Job, JobAttempt } from '../../types/job';
+
+interface Props {
+  job: Job;
+}
+
+const PHASE_LABELS: Record<AttemptPhase, string> = {
+  filling: 'Filling',
+  creating: 'Creating',
+  waiting: 'Waiting',
+  downloading: 'Downloading',
+};
+
+const OUTCOME_COLORS: Record<NonNullable<JobAttempt['outcome']>, string> = {
+  completed: 'text-green-400',
+  failed: 'text-red-400',
+  skipped: 'text-gray-500',
+  aborted: 'text-orange-400',
+  timedOut: 'text-red-400',
+  retried: 'text-yellow-400',
+};
+
+const CLIP_STATUS_COLORS: Record<ClipStatus, string> = {
+  generating: 'text-blue-400',
+  ready: 'text-yellow-400',
+  downloading: 'text-purple-400',
+  interrupted: 'text-orange-400',
+  downloaded: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+const FILE_STATUS_COLORS: Record<ClipFileStatus, string> = {
+  pending: 'text-gray-400',
+  downloading: 'text-purple-400',
+  interrupted: 'text-orange-400',
+  downloaded: 'text-green-400',
+  failed: 'text-red-400',
+  skipped: 'text-gray-500',
+};
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export default function JobDetails({ job }: Props) {
+  const attempts = job.attempts ?? [];
+  const clips = job.clips ?? [];
+
+  if (attempts.length === 0 && clips.length === 0) {
+    return <div className="mt-2 text-gray-500 italic">No attempts yet</div>;
+  }
+
+  return (
+    <div className="mt-2 space-y-1.5">
+      {clips.map((clip) => (
+        <div key={clip.id} className="p-1.5 rounded bg-gray-900/50 border border-gray-700/50">
+          <div className="flex justify-between">
+            <span className="text-gray-300 font-mono truncate mr-2">{clip.id}</span>
+            <span className={CLIP_STATUS_COLORS[clip.status]}>{clip.status}</span>
+          </div>
+          {clip.duration !== undefined && (
+            <div className="text-gray-500 mt-0.5">{formatDuration(clip.duration * 1000)}</div>
+          )}
+          {(Object.entries(clip.files ?? {}) as [DownloadFormat, ClipFile][]).map(([format, file]) => (
+            <div key={format} className="mt-0.5">
+              <div className="flex flex-wrap gap-x-3 text-gray-500">
+                <span className="text-gray-400">{format.toUpperCase()}</span>
+                <span className={FILE_STATUS_COLORS[file.status]}>{file.status}</span>
+                {file.downloadId !== undefined && <span>download #{file.downloadId}</span>}
+                {!!file.downloadRetries && <span>{file.downloadRetries} retr{file.downloadRetries === 1 ? 'y' : 'ies'}</span>}
+              </div>
+              {file.filePath && <div className="text-gray-500 break-all">{file.filePath}</div>}
+              {file.error && <div className="text-red-400 break-words">{file.error}</div>}
+            </div>
+          ))}
+          {clip.error && !clip.files && <div className="text-red-400 mt-0.5 break-words">{clip.error}</div>}
+        </div>
+      ))}
+      {attempts.map((attempt) => (
+        <div key={attempt.number} className="p-1.5 rounded bg-gray-900/50 border border-gray-700/50">
+          <div className="flex justify-between">
+            <span className="text-gray-300">
+              Attempt {attempt.number} · {new Date(attempt.startedAt).toLocaleTimeString()}
+            </span>
+            <span className={attempt.outcome ? OUTCOME_COLORS[attempt.outcome] : 'text-blue-400'}>
+              {attempt.outcome ?? 'running'}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-x-3 text-gray-500 mt-0.5">
+            {(Object.keys(PHASE_LABELS) as AttemptPhase[]).map((phase) => {
+              const timing = attempt.phases[phase];
+              if (!timing) return null;
+              return (
+                <span key={phase}>
+                  {PHASE_LABELS[phase]}{' '}
+                  {timing.endedAt ? formatDuration(timing.endedAt - timing.startedAt) : '…'}
+                </span>
+              );
+            })}
+          </div>
+          {attempt.songIds && attempt.songIds.length > 0 && (
+            <div className="text-gray-500 mt-0.5 break-all">
+              Clips: {attempt.songIds.join(', ')}
+            </div>
+          )}
+          {(attempt.errorCode || attempt.error) && (
+            <div className="text-red-400 mt-0.5 break-words">
+              {attempt.errorCode && <span className="mr-1">[{attempt.errorCode}]</span>}
+              {attempt.error}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
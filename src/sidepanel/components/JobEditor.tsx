@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import type { SongInput } from '../../types/job';
+import { normalizeSong, validateSong } from '../utils/file-validator';
+
+interface Props {
+  input: SongInput;
+  onSave: (input: SongInput) => void;
+  onCancel: () => void;
+}
+
+export default function JobEditor({ input, onSave, onCancel }: Props) {
+  const [draft, setDraft] = useState<SongInput>(input);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (partial: Partial<SongInput>) => {
+    setDraft((prev) => ({ ...prev, ...partial }));
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const validationError = validateSong(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSave(normalizeSong(draft));
+  };
+
+  const fieldClass = 'w-full px-2 py-1 bg-gray-800 border border-gray-600 rounded text-xs text-gray-200';
+
+  return (
+    <div className="space-y-1.5 mt-2">
+      <input
+        value={draft.title}
+        onChange={(e) => set({ title: e.target.value })}
+        placeholder="Title"
+        className={fieldClass}
+      />
+      <textarea
+        value={draft.style}
+        onChange={(e) => set({ style: e.target.value })}
+        placeholder="Style"
+        rows={2}
+        className={`${fieldClass} resize-y`}
+      />
+      <textarea
+        value={draft.lyrics}
+        onChange={(e) => set({ lyrics: e.target.value })}
+        placeholder="Lyrics"
+        rows={4}
+        disabled={draft.instrumental}
+        className={`${fieldClass} resize-y disabled:opacity-50`}
+      />
+      <input
+        value={draft.downloadFolder ?? ''}
+        onChange={(e) => set({ downloadFolder: e.target.value })}
+        placeholder="Download folder (optional)"
+        className={fieldClass}
+      />
+      <label className="flex items-center gap-1.5 text-gray-400">
+        <input
+          type="checkbox"
+          checked={!!draft.instrumental}
+          onChange={(e) => set({ instrumental: e.target.checked })}
+        />
+        Instrumental
+      </label>
+      {error && <div className="text-red-400">{error}</div>}
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          className="flex-1 px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs transition-colors"
+        >
+          Save
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
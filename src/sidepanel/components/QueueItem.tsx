@@ -1,9 +1,19 @@
-import React from 'react';
-import type { Job } from '../../types/job';
+import React, { useState } from 'react';
+import type { ClipFile, DownloadFormat, Job, JobErrorCode, SongInput } from '../../types/job';
+import JobEditor from './JobEditor';
+import JobDetails from './JobDetails';
+import { ALL_DOWNLOAD_FORMATS, MAX_DOWNLOAD_RETRIES } from '../../config/constants';
 
 interface Props {
   job: Job;
   isCurrent: boolean;
+  isFirst: boolean;
+  selected: boolean;
+  onToggleSelect: () => void;
+  onMoveToTop: () => void;
+  /** Drag starts from the handle only, so text in the inline editor stays selectable */
+  onDragStart: (e: React.DragEvent<HTMLElement>) => void;
+  onDragEnd: () => void;
 }
 
 const STATUS_COLORS: Record<string, string> = {
@@ -15,6 +25,8 @@ const STATUS_COLORS: Record<string, string> = {
   completed: 'text-green-400',
   failed: 'text-red-400',
   skipped: 'text-gray-500',
+  aborted: 'text-orange-400',
+  timedOut: 'text-red-400',
 };
 
 const STATUS_LABELS: Record<string, string> = {
@@ -26,9 +38,42 @@ const STATUS_LABELS: Record<string, string> = {
   completed: 'Done',
   failed: 'Failed',
   skipped: 'Skipped',
+  aborted: 'Aborted',
+  timedOut: 'Timed out',
 };
 
-export default function QueueItem({ job, isCurrent }: Props) {
+const ERROR_CODE_LABELS: Record<JobErrorCode, string> = {
+  'selector-not-found': 'Selector not found',
+  'intercept-timeout': 'Intercept timeout',
+  'auth-missing': 'Auth missing',
+  'rate-limited': 'Rate limited',
+  'moderation-rejected': 'Moderation rejected',
+  'out-of-credits': 'Out of credits',
+  'polling-timeout': 'Polling timeout',
+  'download-failed': 'Download failed',
+  'unknown': 'Unknown error',
+};
+
+const PRIORITY_OPTIONS = [
+  { value: 2, label: 'Urgent' },
+  { value: 1, label: 'High' },
+  { value: 0, label: 'Normal' },
+  { value: -1, label: 'Low' },
+];
+
+export default function QueueItem({
+  job,
+  isCurrent,
+  isFirst,
+  selected,
+  onToggleSelect,
+  onMoveToTop,
+  onDragStart,
+  onDragEnd,
+}: Props) {
+  const [editing, setEditing] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+
   const handleRun = () => {
     chrome.runtime.sendMessage({
       type: 'MANUAL_RUN_JOB',
@@ -36,6 +81,42 @@ export default function QueueItem({ job, isCurrent }: Props) {
     });
   };
 
+  // Priorities set elsewhere (drag reordering between other values) get an option of their own,
+  // so the select shows the real value instead of overwriting it on the next change
+  const priority = job.priority ?? 0;
+  const priorityOptions = PRIORITY_OPTIONS.some((opt) => opt.value === priority)
+    ? PRIORITY_OPTIONS
+    : [...PRIORITY_OPTIONS, { value: priority, label: `Priority ${priority}` }].sort((a, b) => b.value - a.value);
+
+  const handlePriority = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    chrome.runtime.sendMessage({
+      type: 'SET_JOB_PRIORITY',
+      payload: { jobId: job.id, priority: Number(e.target.value) }
+    });
+  };
+
+  const handleSave = (input: SongInput) => {
+    chrome.runtime.sendMessage({
+      type: 'UPDATE_JOB',
+      payload: { jobId: job.id, input }
+    });
+    setEditing(false);
+  };
+
+  const handleDuplicate = () => {
+    chrome.runtime.sendMessage({
+      type: 'DUPLICATE_JOB',
+      payload: { jobId: job.id }
+    });
+  };
+
+  const handleDelete = () => {
+    chrome.runtime.sendMessage({
+      type: 'DELETE_JOBS',
+      payload: { jobIds: [job.id] }
+    });
+  };
+
   const handleDownload = () => {
     chrome.runtime.sendMessage({
       type: 'MANUAL_DOWNLOAD_JOB',
@@ -43,8 +124,12 @@ export default function QueueItem({ job, isCurrent }: Props) {
     });
   };
 
-  const canRun = ['pending', 'failed', 'skipped', 'completed'].includes(job.status);
-  const canDownload = ['completed', 'failed'].includes(job.status); // Allow forcing download even on fail
+  const canRun = ['pending', 'failed', 'skipped', 'completed', 'aborted', 'timedOut'].includes(job.status);
+  const canDownload = ['completed', 'failed', 'aborted', 'timedOut'].includes(job.status); // Allow forcing download even on fail
+  const isActive = isCurrent || ['filling', 'creating', 'waiting', 'downloading'].includes(job.status);
+  const interruptedFiles = (job.clips ?? []).flatMap(c => Object.values(c.files ?? {}) as ClipFile[])
+    .filter(f => f.status === 'interrupted');
+  const formatCounts = countFormats(job);
 
   return (
     <div
@@ -54,20 +139,84 @@ export default function QueueItem({ job, isCurrent }: Props) {
         }`}
     >
       <div className="flex items-center justify-between">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={onToggleSelect}
+          className="mr-1.5"
+        />
+        <span
+          draggable
+          onDragStart={onDragStart}
+          onDragEnd={onDragEnd}
+          className="text-gray-600 cursor-grab mr-1.5 select-none"
+          title="Drag to reorder (takes the priority of its new neighbours)"
+        >
+          ⋮⋮
+        </span>
         <span className="font-medium text-gray-200 truncate flex-1 mr-2">
           {job.input.title}
         </span>
+        <select
+          value={priority}
+          onChange={handlePriority}
+          className="mr-2 px-1 py-0.5 bg-gray-800 border border-gray-600 rounded text-[10px] text-gray-300"
+          title="Priority — higher runs first"
+        >
+          {priorityOptions.map((opt) => (
+            <option key={opt.value} value={opt.value}>{opt.label}</option>
+          ))}
+        </select>
         <span className={`text-xs whitespace-nowrap ${STATUS_COLORS[job.status]}`}>
           {STATUS_LABELS[job.status]}
         </span>
       </div>
-      <div className="text-gray-500 truncate mt-0.5">
-        {job.input.style}
-        {job.input.instrumental && ' (Instrumental)'}
-      </div>
-      {job.error && (
-        <div className="text-red-400 mt-1 break-words">{job.error}</div>
+      {editing && !isActive ? (
+        <JobEditor input={job.input} onSave={handleSave} onCancel={() => setEditing(false)} />
+      ) : (
+        <div className="text-gray-500 truncate mt-0.5">
+          {job.input.style}
+          {job.input.instrumental && ' (Instrumental)'}
+        </div>
+      )}
+      {(job.error || job.errorCode) && (
+        <div className="text-red-400 mt-1 break-words">
+          {job.errorCode && (
+            <span className="inline-block mr-1.5 px-1.5 py-0.5 rounded bg-red-900/40 border border-red-800/50 text-[10px]">
+              {ERROR_CODE_LABELS[job.errorCode]}
+            </span>
+          )}
+          {job.error}
+          {job.status === 'pending' && job.retryAt && job.retryAt > Date.now() && (
+            <span className="text-gray-500"> — retry at {new Date(job.retryAt).toLocaleTimeString()}</span>
+          )}
+        </div>
+      )}
+      {formatCounts.length > 0 && (
+        <div className="flex gap-1 mt-1">
+          {formatCounts.map(({ format, saved, total, failed }) => (
+            <span
+              key={format}
+              className={`px-1.5 py-0.5 rounded border text-[10px] ${failed
+                ? 'bg-red-900/40 border-red-800/50 text-red-400'
+                : saved === total
+                  ? 'bg-green-900/30 border-green-800/50 text-green-400'
+                  : 'bg-gray-800 border-gray-700 text-gray-400'
+                }`}
+              title={`${format.toUpperCase()} saved for ${saved} of ${total} clip(s)`}
+            >
+              {format.toUpperCase()} {saved}/{total}
+            </span>
+          ))}
+        </div>
+      )}
+      {interruptedFiles.length > 0 && (
+        <div className="text-orange-400 mt-1">
+          ⚠ {interruptedFiles.length} download(s) interrupted — retrying
+          {interruptedFiles.map(f => ` (${f.downloadRetries ?? 1}/${MAX_DOWNLOAD_RETRIES})`).join('')}
+        </div>
       )}
+      {showDetails && <JobDetails job={job} />}
       <div className="flex gap-2 mt-2 pt-2 border-t border-gray-700/50">
         <button
           onClick={handleRun}
@@ -81,11 +230,64 @@ export default function QueueItem({ job, isCurrent }: Props) {
           onClick={handleDownload}
           disabled={!canDownload}
           className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 text-gray-300 rounded text-xs transition-colors flex items-center justify-center gap-1"
-          title="Trigger download attempt"
+          title="Download the clips that are not saved yet"
         >
           <span>⬇️</span> Download
         </button>
+        <button
+          onClick={onMoveToTop}
+          disabled={isFirst}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 text-gray-300 rounded text-xs transition-colors"
+          title="Move to top of the queue (raises its priority to the highest pending one)"
+        >
+          ⤒
+        </button>
+        <button
+          onClick={() => setShowDetails(!showDetails)}
+          className={`px-2 py-1 hover:bg-gray-600 text-gray-300 rounded text-xs transition-colors ${showDetails ? 'bg-gray-600' : 'bg-gray-700'}`}
+          title="Show clips and attempt history"
+        >
+          ⓘ
+        </button>
+        <button
+          onClick={() => setEditing(!editing)}
+          disabled={isActive}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 text-gray-300 rounded text-xs transition-colors"
+          title={isActive ? 'Cannot edit while the job is running' : 'Edit this job'}
+        >
+          ✏️
+        </button>
+        <button
+          onClick={handleDuplicate}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs transition-colors"
+          title="Duplicate this job"
+        >
+          ⧉
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={isActive}
+          className="px-2 py-1 bg-gray-700 hover:bg-red-700 disabled:bg-gray-800 disabled:text-gray-600 text-gray-300 rounded text-xs transition-colors"
+          title={isActive ? 'Cannot delete while the job is running' : 'Delete this job'}
+        >
+          🗑️
+        </button>
       </div>
     </div>
   );
 }
+
+/** Saved/total clips per requested format; formats a clip does not have (no video) are left out */
+function countFormats(job: Job): { format: DownloadFormat; saved: number; total: number; failed: boolean }[] {
+  const clips = job.clips ?? [];
+  return ALL_DOWNLOAD_FORMATS.flatMap((format) => {
+    const files = clips.map(c => c.files?.[format]).filter((f): f is ClipFile => !!f && f.status !== 'skipped');
+    if (files.length === 0) return [];
+    return [{
+      format,
+      saved: files.filter(f => f.status === 'downloaded').length,
+      total: files.length,
+      failed: files.some(f => f.status === 'failed'),
+    }];
+  });
+}
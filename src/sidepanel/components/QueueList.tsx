@@ -1,5 +1,6 @@
-import React from 'react';
+import React, { useState } from 'react';
 import type { Job } from '../../types/job';
+import type { BulkJobAction } from '../../types/messages';
 import QueueItem from './QueueItem';
 
 interface Props {
@@ -7,7 +8,61 @@ interface Props {
   activeJobIds: string[];
 }
 
+/** Drop target below the last row */
+const END_OF_QUEUE = 'end-of-queue';
+
 export default function QueueList({ jobs, activeJobIds }: Props) {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Drop selections of jobs that no longer exist
+  const selection = jobs.filter((j) => selectedIds.has(j.id)).map((j) => j.id);
+  // Bulk retry/re-run act on the selection when there is one, so count within it
+  const bulkTargets = selection.length > 0 ? jobs.filter((j) => selectedIds.has(j.id)) : jobs;
+  const failedCount = bulkTargets.filter((j) => ['failed', 'timedOut', 'aborted'].includes(j.status)).length;
+  const completedCount = bulkTargets.filter((j) => j.status === 'completed').length;
+
+  const toggleSelect = (jobId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(jobId)) next.delete(jobId);
+      else next.add(jobId);
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selection.length === jobs.length ? new Set() : new Set(jobs.map((j) => j.id)));
+  };
+
+  const runBulk = (action: BulkJobAction) => {
+    chrome.runtime.sendMessage({
+      type: 'BULK_JOB_ACTION',
+      payload: { action, jobIds: selection.length > 0 ? selection : undefined },
+    });
+    if (action === 'remove') setSelectedIds(new Set());
+  };
+
+  const sendOrder = (jobIds: string[], movedJobId: string) => {
+    chrome.runtime.sendMessage({ type: 'REORDER_JOBS', payload: { jobIds, movedJobId } });
+  };
+
+  /** Insert the dragged job before the target row, or last for END_OF_QUEUE */
+  const handleDrop = (targetId: string) => {
+    if (dragId && dragId !== targetId) {
+      const ids = jobs.map((j) => j.id).filter((id) => id !== dragId);
+      ids.splice(targetId === END_OF_QUEUE ? ids.length : ids.indexOf(targetId), 0, dragId);
+      sendOrder(ids, dragId);
+    }
+    setDragId(null);
+    setOverId(null);
+  };
+
+  const handleMoveToTop = (jobId: string) => {
+    sendOrder([jobId, ...jobs.map((j) => j.id).filter((id) => id !== jobId)], jobId);
+  };
+
   if (jobs.length === 0) {
     return (
       <div className="text-center text-gray-500 py-8 text-sm">
@@ -16,11 +71,97 @@ export default function QueueList({ jobs, activeJobIds }: Props) {
     );
   }
 
+  const bulkButtonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 text-gray-300 rounded text-xs transition-colors';
+
   return (
-    <div className="space-y-1.5 overflow-y-auto max-h-[40vh]">
-      {jobs.map((job) => (
-        <QueueItem key={job.id} job={job} isCurrent={activeJobIds.includes(job.id)} />
-      ))}
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        <label className="flex items-center gap-1 text-gray-400 mr-1">
+          <input
+            type="checkbox"
+            checked={selection.length > 0 && selection.length === jobs.length}
+            onChange={toggleSelectAll}
+          />
+          {selection.length > 0 ? `${selection.length} selected` : 'Select all'}
+        </label>
+        <button
+          onClick={() => runBulk('retryFailed')}
+          disabled={failedCount === 0}
+          className={bulkButtonClass}
+          title={selection.length > 0 ? 'Retry failed jobs in the selection' : 'Retry all failed jobs'}
+        >
+          Retry failed
+        </button>
+        <button
+          onClick={() => runBulk('rerunCompleted')}
+          disabled={completedCount === 0}
+          className={bulkButtonClass}
+          title={selection.length > 0 ? 'Re-run completed jobs in the selection' : 'Re-run all completed jobs'}
+        >
+          Re-run completed
+        </button>
+        <button onClick={() => runBulk('skip')} disabled={selection.length === 0} className={bulkButtonClass}>
+          Skip
+        </button>
+        <button onClick={() => runBulk('remove')} disabled={selection.length === 0} className={bulkButtonClass}>
+          Remove
+        </button>
+      </div>
+      <div className="space-y-1.5 overflow-y-auto max-h-[40vh]">
+        {jobs.map((job, i) => (
+          <div
+            key={job.id}
+            data-job-row
+            onDragOver={(e) => {
+              e.preventDefault();
+              if (overId !== job.id) setOverId(job.id);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(job.id);
+            }}
+            className={`${dragId === job.id ? 'opacity-50' : ''} ${overId === job.id && dragId !== job.id ? 'border-t-2 border-indigo-500' : ''}`}
+          >
+            <QueueItem
+              job={job}
+              isCurrent={activeJobIds.includes(job.id)}
+              isFirst={i === 0}
+              selected={selectedIds.has(job.id)}
+              onToggleSelect={() => toggleSelect(job.id)}
+              onMoveToTop={() => handleMoveToTop(job.id)}
+              onDragStart={(e) => {
+                setDragId(job.id);
+                e.dataTransfer.effectAllowed = 'move';
+                // Drag the whole row, not just the handle
+                const row = e.currentTarget.closest('[data-job-row]');
+                if (row) e.dataTransfer.setDragImage(row, 0, 0);
+              }}
+              onDragEnd={() => {
+                setDragId(null);
+                setOverId(null);
+              }}
+            />
+          </div>
+        ))}
+        {dragId && (
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              if (overId !== END_OF_QUEUE) setOverId(END_OF_QUEUE);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(END_OF_QUEUE);
+            }}
+            className={`py-1.5 rounded border border-dashed text-center text-xs ${overId === END_OF_QUEUE
+              ? 'border-indigo-500 text-indigo-400'
+              : 'border-gray-700 text-gray-600'
+              }`}
+          >
+            Drop here to move to the end
+          </div>
+        )}
+      </div>
     </div>
   );
 }
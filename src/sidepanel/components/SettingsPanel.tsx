@@ -1,5 +1,15 @@
-import React, { useState } from 'react';
-import type { Settings } from '../../types/messages';
+import React, { useEffect, useState } from 'react';
+import type { ConflictPolicy, Settings } from '../../types/messages';
+import type { DownloadFormat } from '../../types/job';
+import { ALL_DOWNLOAD_FORMATS } from '../../config/constants';
+import {
+  clearDirectoryHandle,
+  directoryPermission,
+  loadDirectoryHandle,
+  pickDirectory,
+  saveDirectoryHandle,
+} from '../../utils/directory-handle';
+import { FILENAME_TOKENS, FOLDER_TOKENS, renderFilename, renderFolder, validateFolderPath } from '../../utils/download-path';
 
 interface Props {
   settings: Settings;
@@ -7,8 +17,41 @@ interface Props {
   disabled: boolean;
 }
 
+const CONFLICT_LABELS: Record<ConflictPolicy, string> = {
+  uniquify: 'Add (1), (2)…',
+  overwrite: 'Overwrite',
+  skip: 'Keep existing',
+};
+
+/** Example clip the filename preview is rendered for */
+const PREVIEW_TOKENS = {
+  title: 'Midnight Drive',
+  index: 2,
+  clipId: '3f9a2c71-5b1e-4d0a-9c8e-0a1b2c3d4e5f',
+  style: 'synthwave, retro',
+  jobIndex: 4,
+};
+
 export default function SettingsPanel({ settings, onUpdate, disabled }: Props) {
   const [open, setOpen] = useState(false);
+  const formats = settings.downloadFormats?.length ? settings.downloadFormats : ['mp3'];
+  const filenamePreview = renderFilename(
+    settings.filenameTemplate || '{title}',
+    { ...PREVIEW_TOKENS, format: formats[0] },
+    2,
+  );
+  // At least one format stays selected; the order follows ALL_DOWNLOAD_FORMATS so the first is the primary file
+  const toggleFormat = (format: DownloadFormat) => {
+    const next = formats.includes(format) ? formats.filter((f) => f !== format) : [...formats, format];
+    if (next.length === 0) return;
+    onUpdate({ downloadFormats: ALL_DOWNLOAD_FORMATS.filter((f) => next.includes(f)) });
+  };
+  const folderPreview = renderFolder(settings.folderTemplate || '{downloadPath}/{folder}', {
+    ...PREVIEW_TOKENS,
+    downloadPath: settings.downloadPath || 'SunoMusic',
+    folder: 'Album/Disc1',
+  });
+  const folderWarning = validateFolderPath(settings.folderTemplate || '');
 
   return (
     <div className="border border-gray-700 rounded">
@@ -45,29 +88,156 @@ export default function SettingsPanel({ settings, onUpdate, disabled }: Props) {
             max={10}
             disabled={disabled}
           />
+          <SettingRow
+            label="Max concurrent jobs"
+            value={settings.maxConcurrentJobs}
+            onChange={(v) => onUpdate({ maxConcurrentJobs: v })}
+            min={1}
+            max={10}
+            disabled={disabled}
+          />
           <div className="flex items-center justify-between gap-2">
-            <label className="text-xs text-gray-400 flex-1">Download Format</label>
+            <label className="text-xs text-gray-400 flex-1" title="MP4 is saved only for clips that have a video">
+              Download Formats
+            </label>
             <div className="flex gap-2 bg-gray-800 p-1 rounded border border-gray-600">
-              <button
-                onClick={() => onUpdate({ downloadFormat: 'mp3' })}
-                disabled={disabled}
-                className={`px-2 py-0.5 text-xs rounded transition-colors ${settings.downloadFormat === 'mp3'
-                  ? 'bg-indigo-600 text-white'
-                  : 'text-gray-400 hover:text-gray-200'
-                  }`}
-              >
-                MP3
-              </button>
-              <button
-                onClick={() => onUpdate({ downloadFormat: 'wav' })}
-                disabled={disabled}
-                className={`px-2 py-0.5 text-xs rounded transition-colors ${settings.downloadFormat === 'wav'
-                  ? 'bg-indigo-600 text-white'
-                  : 'text-gray-400 hover:text-gray-200'
-                  }`}
-              >
-                WAV
-              </button>
+              {ALL_DOWNLOAD_FORMATS.map((format) => (
+                <button
+                  key={format}
+                  onClick={() => toggleFormat(format)}
+                  disabled={disabled}
+                  className={`px-2 py-0.5 text-xs rounded transition-colors ${formats.includes(format)
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-400 hover:text-gray-200'
+                    }`}
+                >
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+          <TextSettingRow
+            label="File name"
+            value={settings.filenameTemplate}
+            onChange={(v) => onUpdate({ filenameTemplate: v })}
+            disabled={disabled}
+            placeholder="{title} ({index})"
+          />
+          <TextSettingRow
+            label="Folder"
+            value={settings.folderTemplate}
+            onChange={(v) => onUpdate({ folderTemplate: v })}
+            disabled={disabled}
+            placeholder="{downloadPath}/{folder}"
+          />
+          <div className="text-[10px] text-gray-500 leading-tight space-y-0.5">
+            <div>
+              Preview: <span className="text-gray-300 break-all">{folderPreview ? `${folderPreview}/` : ''}{filenamePreview}</span>
+            </div>
+            {folderWarning && <div className="text-yellow-500">⚠ {folderWarning}; unsafe parts are dropped</div>}
+            <div>
+              File tokens: {FILENAME_TOKENS.map((t) => `{${t}}`).join(' ')}. Clips of the same job always get distinct names.
+            </div>
+            <div>
+              Folder tokens: {FOLDER_TOKENS.map((t) => `{${t}}`).join(' ')}. Use / for subfolders; {'{folder}'} is the job's download folder.
+            </div>
+          </div>
+          <OutputFolderSection settings={settings} onUpdate={onUpdate} disabled={disabled} />
+          <div className="pt-2 border-t border-gray-700/50 space-y-3">
+            <div className="text-xs font-medium text-gray-300">MP3 Tags</div>
+            <CheckboxSettingRow
+              label="Embed ID3 tags in MP3s"
+              checked={settings.id3.enabled}
+              onChange={(v) => onUpdate({ id3: { ...settings.id3, enabled: v } })}
+              disabled={disabled}
+            />
+            <div className="text-[10px] text-gray-500">
+              Each MP3 is fetched again and re-encoded in memory before saving; large or slow files are saved untagged.
+            </div>
+            <TextSettingRow
+              label="Artist"
+              value={settings.id3.artist || ''}
+              onChange={(v) => onUpdate({ id3: { ...settings.id3, artist: v || undefined } })}
+              disabled={disabled}
+              placeholder="Suno creator name"
+            />
+            <TextSettingRow
+              label="Album"
+              value={settings.id3.album || ''}
+              onChange={(v) => onUpdate({ id3: { ...settings.id3, album: v || undefined } })}
+              disabled={disabled}
+              placeholder="Job download folder"
+            />
+            <div className="text-[10px] text-gray-500 leading-tight">
+              Title, genre (style), lyrics, cover art and the Suno clip ID are filled from the job. Tagged files are fetched and saved by the extension instead of directly from the CDN.
+            </div>
+          </div>
+          <div className="pt-2 border-t border-gray-700/50 space-y-3">
+            <div className="text-xs font-medium text-gray-300">Extra Files</div>
+            <CheckboxSettingRow
+              label="Cover image"
+              checked={settings.sidecars.cover}
+              onChange={(v) => onUpdate({ sidecars: { ...settings.sidecars, cover: v } })}
+              disabled={disabled}
+            />
+            <CheckboxSettingRow
+              label="Lyrics (.txt)"
+              checked={settings.sidecars.lyrics}
+              onChange={(v) => onUpdate({ sidecars: { ...settings.sidecars, lyrics: v } })}
+              disabled={disabled}
+            />
+            <CheckboxSettingRow
+              label="Metadata (.json)"
+              checked={settings.sidecars.metadata}
+              onChange={(v) => onUpdate({ sidecars: { ...settings.sidecars, metadata: v } })}
+              disabled={disabled}
+            />
+            <CheckboxSettingRow
+              label="Synced lyrics (.lrc)"
+              checked={settings.sidecars.lrc}
+              onChange={(v) => onUpdate({ sidecars: { ...settings.sidecars, lrc: v } })}
+              disabled={disabled}
+            />
+            <CheckboxSettingRow
+              label="Word-level timing (enhanced LRC)"
+              checked={settings.sidecars.enhancedLrc}
+              onChange={(v) => onUpdate({ sidecars: { ...settings.sidecars, enhancedLrc: v } })}
+              disabled={disabled || !settings.sidecars.lrc}
+            />
+            <div className="text-[10px] text-gray-500 leading-tight">
+              Saved next to each audio file with the same name. The .json holds the clip ID, job input, model, tags, duration, created time and Suno link. The .lrc uses Suno's word alignment and is skipped for clips without one.
+            </div>
+          </div>
+          <div className="pt-2 border-t border-gray-700/50 space-y-3">
+            <div className="text-xs font-medium text-gray-300">Schedule</div>
+            <CheckboxSettingRow
+              label="Run queue on a schedule"
+              checked={settings.schedule.enabled}
+              onChange={(v) => onUpdate({ schedule: { ...settings.schedule, enabled: v } })}
+              disabled={disabled}
+            />
+            <TextSettingRow
+              label="Start time"
+              value={settings.schedule.startTime}
+              onChange={(v) => onUpdate({ schedule: { ...settings.schedule, startTime: v } })}
+              disabled={disabled}
+              type="time"
+            />
+            <TextSettingRow
+              label="Pause at"
+              value={settings.schedule.endTime || ''}
+              onChange={(v) => onUpdate({ schedule: { ...settings.schedule, endTime: v || undefined } })}
+              disabled={disabled}
+              type="time"
+            />
+            <CheckboxSettingRow
+              label="Repeat daily"
+              checked={settings.schedule.repeatDaily}
+              onChange={(v) => onUpdate({ schedule: { ...settings.schedule, repeatDaily: v } })}
+              disabled={disabled}
+            />
+            <div className="text-[10px] text-gray-500 leading-tight">
+              Starts the queue at the start time. "Pause at" is optional; in-flight jobs still finish. Leave "Pause at" empty to run until the queue is done.
             </div>
           </div>
           <div className="pt-2 border-t border-gray-700/50 space-y-3">
@@ -97,6 +267,119 @@ export default function SettingsPanel({ settings, onUpdate, disabled }: Props) {
   );
 }
 
+/** Folder picked with the File System Access API; files are written into it instead of Downloads */
+function OutputFolderSection({ settings, onUpdate, disabled }: Props) {
+  const [folderName, setFolderName] = useState<string | null>(null);
+  const [permission, setPermission] = useState<PermissionState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const outputDirectory = settings.outputDirectory ?? { enabled: false, onConflict: 'uniquify' };
+
+  const refresh = async () => {
+    const handle = await loadDirectoryHandle();
+    setFolderName(handle?.name ?? null);
+    setPermission(handle ? await directoryPermission(handle) : null);
+  };
+
+  useEffect(() => {
+    refresh().catch((e) => setError((e as Error).message));
+    // Access can be granted from Start/Resume or revoked in Chrome's site settings meanwhile
+    const onFocus = () => { refresh().catch(() => { }); };
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, []);
+
+  const handleChoose = async () => {
+    setError(null);
+    try {
+      const handle = await pickDirectory();
+      if (!handle) return;
+      await saveDirectoryHandle(handle);
+      await refresh();
+      onUpdate({ outputDirectory: { ...outputDirectory, enabled: true } });
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleGrant = async () => {
+    setError(null);
+    try {
+      const handle = await loadDirectoryHandle();
+      if (handle) setPermission(await directoryPermission(handle, true));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleForget = async () => {
+    await clearDirectoryHandle();
+    setFolderName(null);
+    setPermission(null);
+    onUpdate({ outputDirectory: { ...outputDirectory, enabled: false } });
+  };
+
+  return (
+    <div className="pt-2 border-t border-gray-700/50 space-y-3">
+      <div className="text-xs font-medium text-gray-300">Output Folder</div>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-200 flex-1 truncate" title={folderName ?? undefined}>
+          {folderName ?? <span className="text-gray-500">None — files go to Downloads</span>}
+        </span>
+        <button
+          onClick={handleChoose}
+          disabled={disabled}
+          className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-300 rounded text-xs transition-colors"
+        >
+          {folderName ? 'Change…' : 'Choose…'}
+        </button>
+        {folderName && (
+          <button
+            onClick={handleForget}
+            disabled={disabled}
+            className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-300 rounded text-xs transition-colors"
+          >
+            Forget
+          </button>
+        )}
+      </div>
+      {folderName && permission !== 'granted' && (
+        <div className="flex items-center gap-2 text-[10px] text-yellow-500">
+          <span className="flex-1">⚠ Chrome needs permission again to write into this folder; until then files go to Downloads.</span>
+          <button
+            onClick={handleGrant}
+            className="px-2 py-0.5 bg-yellow-700 hover:bg-yellow-600 text-white rounded text-xs transition-colors"
+          >
+            Grant access
+          </button>
+        </div>
+      )}
+      <CheckboxSettingRow
+        label="Write files into this folder"
+        checked={outputDirectory.enabled}
+        onChange={(v) => onUpdate({ outputDirectory: { ...outputDirectory, enabled: v } })}
+        disabled={disabled || !folderName}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-xs text-gray-400 flex-1">If a file exists</label>
+        <select
+          value={outputDirectory.onConflict}
+          onChange={(e) => onUpdate({ outputDirectory: { ...outputDirectory, onConflict: e.target.value as ConflictPolicy } })}
+          disabled={disabled || !outputDirectory.enabled}
+          className="px-1 py-1 bg-gray-800 border border-gray-600 rounded text-xs text-gray-200 disabled:opacity-50"
+        >
+          {(Object.keys(CONFLICT_LABELS) as ConflictPolicy[]).map((policy) => (
+            <option key={policy} value={policy}>{CONFLICT_LABELS[policy]}</option>
+          ))}
+        </select>
+      </div>
+      {error && <div className="text-[10px] text-red-400">{error}</div>}
+      <div className="text-[10px] text-gray-500 leading-tight">
+        Audio and extra files are written straight into the folder (with the subfolders above) without showing up in Chrome's download list. Access is asked again on Start after a browser restart.
+      </div>
+    </div>
+  );
+}
+
 function SettingRow({
   label,
   value,
@@ -157,3 +440,28 @@ function TextSettingRow({
     </div>
   );
 }
+
+function CheckboxSettingRow({
+  label,
+  checked,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (v: boolean) => void;
+  disabled: boolean;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-xs text-gray-400 flex-1">{label}</span>
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        disabled={disabled}
+        className="disabled:opacity-50"
+      />
+    </label>
+  );
+}
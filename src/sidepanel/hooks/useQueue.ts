@@ -2,10 +2,12 @@ import { useCallback, useEffect, useState } from 'react';
 import type { Job, QueueState } from '../../types/job';
 import type { SongInput } from '../../types/job';
 import type { QueueStateUpdate, Settings } from '../../types/messages';
+import { regrantDirectoryAccess } from '../../utils/directory-handle';
 
 const defaultState: QueueState = {
   jobs: [],
   running: false,
+  paused: false,
   activeJobIds: [],
   library: [],
 };
@@ -16,8 +18,15 @@ export function useQueue() {
     delayBetweenSongs: 5000,
     generationTimeout: 180_000,
     maxRetries: 3,
+    maxConcurrentJobs: 3,
     downloadPath: 'SunoMusic',
-    downloadFormat: 'mp3',
+    downloadFormats: ['mp3'],
+    filenameTemplate: '{title} ({index})',
+    folderTemplate: '{downloadPath}/{folder}',
+    id3: { enabled: false },
+    sidecars: { cover: false, lyrics: false, metadata: false, lrc: false, enhancedLrc: false },
+    outputDirectory: { enabled: false, onConflict: 'uniquify' },
+    schedule: { enabled: false, startTime: '01:00', repeatDaily: false },
   });
 
   // Listen for state updates from background
@@ -47,14 +56,29 @@ export function useQueue() {
     chrome.runtime.sendMessage({ type: 'ADD_JOBS', payload: inputs });
   }, []);
 
+  // Start and Resume are user gestures, the chance to re-ask for folder access Chrome dropped on restart
+  const regrantOutputFolder = useCallback(() => {
+    if (settings.outputDirectory?.enabled) regrantDirectoryAccess().catch(() => { });
+  }, [settings.outputDirectory?.enabled]);
+
   const start = useCallback(() => {
+    regrantOutputFolder();
     chrome.runtime.sendMessage({ type: 'START_QUEUE' });
-  }, []);
+  }, [regrantOutputFolder]);
 
   const stop = useCallback(() => {
     chrome.runtime.sendMessage({ type: 'STOP_QUEUE' });
   }, []);
 
+  const pause = useCallback(() => {
+    chrome.runtime.sendMessage({ type: 'PAUSE_QUEUE' });
+  }, []);
+
+  const resume = useCallback(() => {
+    regrantOutputFolder();
+    chrome.runtime.sendMessage({ type: 'RESUME_QUEUE' });
+  }, [regrantOutputFolder]);
+
   const clear = useCallback(() => {
     chrome.runtime.sendMessage({ type: 'CLEAR_QUEUE' });
   }, []);
@@ -66,19 +90,22 @@ export function useQueue() {
   }, [settings]);
 
   const completed = state.jobs.filter((j) => j.status === 'completed').length;
-  const failed = state.jobs.filter((j) => j.status === 'failed').length;
+  const failed = state.jobs.filter((j) => j.status === 'failed' || j.status === 'timedOut').length;
   const total = state.jobs.length;
   const progress = total > 0 ? ((completed + failed) / total) * 100 : 0;
 
   return {
     jobs: state.jobs,
     running: state.running,
+    paused: !!state.paused,
     activeJobIds: state.activeJobIds,
     library: state.library || [],
     settings,
     addJobs,
     start,
     stop,
+    pause,
+    resume,
     clear,
     updateSettings,
     completed,
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { createCsvReader, detectDelimiter, parseCsv, parseCsvStream, type CsvDelimiter } from './csv-parser';
+
+function readAll(text: string, delimiter: CsvDelimiter = ',') {
+  const reader = createCsvReader(delimiter);
+  return [...reader.write(text), ...reader.end()];
+}
+
+describe('createCsvReader', () => {
+  it('reads quoted delimiters, doubled quotes and stray quotes in unquoted fields', () => {
+    expect(readAll('a,"b,c","say ""hi""",12" vinyl')).toEqual([
+      { fields: ['a', 'b,c', 'say "hi"', '12" vinyl'], row: 1 },
+    ]);
+  });
+
+  it('accepts CRLF, LF and CR line endings and keeps line breaks in quoted fields as \\n', () => {
+    expect(readAll('a,b\r\n"1\r\n2",3\r"x\ry",z\n')).toEqual([
+      { fields: ['a', 'b'], row: 1 },
+      { fields: ['1\n2', '3'], row: 2 },
+      { fields: ['x\ny', 'z'], row: 3 },
+    ]);
+  });
+
+  it('drops a leading BOM and skips blank lines while counting them', () => {
+    expect(readAll('\uFEFFa\n\nb\n')).toEqual([
+      { fields: ['a'], row: 1 },
+      { fields: ['b'], row: 3 },
+    ]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(readAll('a,,\n,"",b')).toEqual([
+      { fields: ['a', '', ''], row: 1 },
+      { fields: ['', '', 'b'], row: 2 },
+    ]);
+  });
+
+  it('joins records split across chunks, including a CRLF pair', () => {
+    const reader = createCsvReader(';');
+    const records = [...reader.write('a;"b\r'), ...reader.write('\nc"\r'), ...reader.write('\nd;e'), ...reader.end()];
+    expect(records).toEqual([
+      { fields: ['a', 'b\nc'], row: 1 },
+      { fields: ['d', 'e'], row: 2 },
+    ]);
+  });
+
+  it('reports text after a closing quote with its position', () => {
+    expect(() => readAll('a,b\nc,"d"e')).toThrow(expect.objectContaining({ row: 2, column: 2 }));
+  });
+
+  it('reports an unclosed quote where it opened', () => {
+    expect(() => readAll('a,b\nc,"d\ne,f\n')).toThrow(expect.objectContaining({ message: 'Quoted field is never closed', row: 2, column: 2 }));
+  });
+
+  it('names the line when a multi-line cell above moved it away from the row', () => {
+    expect(() => readAll('a,b\n"1\n2",3\nc,"d"e')).toThrow(expect.objectContaining({
+      message: expect.stringMatching(/^Unexpected "e" after closing quote \(line 4\);/),
+      row: 3,
+      column: 2,
+    }));
+    expect(() => readAll('a,b\r\n"1\r\n2",3\r\nc,"d')).toThrow(expect.objectContaining({
+      message: 'Quoted field (line 4) is never closed',
+      row: 3,
+    }));
+  });
+});
+
+describe('detectDelimiter', () => {
+  it.each([
+    ['title,style\n', ','],
+    ['title;style;lyrics\na,b\n', ';'],
+    ['title\tstyle\n', '\t'],
+    ['"a;b;c",title,style\n', ','],
+    ['\uFEFFtitle;style', ';'],
+    ['title\n', ','],
+  ])('%j → %j', (text, expected) => {
+    expect(detectDelimiter(text)).toBe(expected);
+  });
+});
+
+describe('parseCsv', () => {
+  it('maps columns by header alias, in any order', () => {
+    const songs = parseCsv('Genre;Song Title;Prompt;Make Instrumental;Album\npop;One;"la\nla";yes;Disc 1\n');
+    expect(songs).toEqual([{
+      row: 2,
+      song: { title: 'One', style: 'pop', lyrics: 'la\nla', instrumental: true, downloadFolder: 'Disc 1' },
+    }]);
+  });
+
+  it('gives each song the spreadsheet row it starts on', () => {
+    const songs = parseCsv('title,style,lyrics\nA,pop,"1\n2"\n\nB,rock,\n');
+    expect(songs.map((s) => [s.song.title, s.row])).toEqual([['A', 2], ['B', 4]]);
+  });
+
+  it('requires title and style columns', () => {
+    expect(() => parseCsv('title,lyrics\nA,la\n')).toThrow(expect.objectContaining({ message: expect.stringMatching(/^Missing style column/), row: 1 }));
+  });
+
+  it('requires a data row', () => {
+    expect(() => parseCsv('title,style\n')).toThrow(/at least one data row/);
+  });
+});
+
+describe('parseCsvStream', () => {
+  /** A stream delivering the UTF-8 bytes of text in chunks of the given size */
+  function streamOf(text: string, chunkSize: number): ReadableStream<Uint8Array> {
+    const bytes = new TextEncoder().encode(text);
+    let offset = 0;
+    return new ReadableStream({
+      pull(controller) {
+        if (offset >= bytes.length) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(bytes.slice(offset, offset + chunkSize));
+        offset += chunkSize;
+      },
+    });
+  }
+
+  const csv = 'title;style;lyrics\r\nCafé ☕;pop;"one\r\ntwo"\r\nB;rock;\r\n';
+
+  it.each([1, 2, 5, 1000])('reads chunks of %i byte(s) like parseCsv reads the whole text', async (chunkSize) => {
+    expect(await parseCsvStream(streamOf(csv, chunkSize))).toEqual(parseCsv(csv));
+  });
+
+  it('uses a given delimiter', async () => {
+    const songs = await parseCsvStream(streamOf('title\tstyle\nA,B\tpop\n', 3), '\t');
+    expect(songs.map((s) => s.song.title)).toEqual(['A,B']);
+  });
+
+  it('reports errors like parseCsv', async () => {
+    await expect(parseCsvStream(streamOf('title,style', 4))).rejects.toThrow(/at least one data row/);
+    await expect(parseCsvStream(streamOf('title,style\nA,"pop', 4))).rejects.toThrow(expect.objectContaining({ row: 2, column: 2 }));
+  });
+});
@@ -1,88 +1,231 @@
-import type { SongInput } from '../../types/job';
+import type { ParsedSong } from './file-validator';
+import { FIELD_ALIASES, fieldForName, importError, songFromFields } from './song-fields';
+import { expandTemplate } from './song-template';
 
 /**
- * Parse a CSV string into SongInput[].
- * Expects headers: title, style, lyrics, instrumental (optional)
+ * 1-based position in a CSV file. Rows count records like a spreadsheet, the header
+ * being row 1: a quoted cell spanning several lines is still one row, so after such
+ * a cell rows and line numbers differ. Reader errors name the line as well.
  */
-export function parseCsv(text: string): SongInput[] {
-  const lines = text.split(/\r?\n/).filter((l) => l.trim());
-  if (lines.length < 2) throw new Error('CSV must have a header row and at least one data row');
+export interface CsvPosition {
+  row: number;
+  column?: number;
+}
 
-  const headers = parseCsvLine(lines[0]).map((h) => h.trim().toLowerCase());
+export interface CsvRecord {
+  fields: string[];
+  row: number;
+}
 
-  const titleIdx = headers.indexOf('title');
-  const styleIdx = headers.indexOf('style');
-  const lyricsIdx = headers.indexOf('lyrics');
-  const instrIdx = headers.indexOf('instrumental');
-  const folderIdx = headers.indexOf('downloadfolder');
+export interface CsvReader {
+  /** Feed the next chunk of text; returns the records it completed */
+  write(chunk: string): CsvRecord[];
+  /** Flush the last record; throws if a quoted field was left open */
+  end(): CsvRecord[];
+}
 
-  if (titleIdx === -1 || styleIdx === -1) {
-    throw new Error('CSV must at least have title and style columns');
-  }
+export type CsvDelimiter = ',' | ';' | '\t';
 
-  const results: SongInput[] = [];
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
 
-  for (let i = 1; i < lines.length; i++) {
-    const cols = parseCsvLine(lines[i]);
-    if (cols.length < 2) continue;
+/**
+ * Parse a CSV (or, with delimiter '\t', TSV) string into songs, each with the row it came from.
+ * The delimiter is detected from the header line unless given.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): ParsedSong[] {
+  const reader = createCsvReader(delimiter);
+  return songsFromTable([...reader.write(text), ...reader.end()]);
+}
 
-    const instrumental = instrIdx !== -1 && instrIdx < cols.length
-      ? cols[instrIdx]?.trim().toLowerCase() === 'true'
-      : false;
+/**
+ * Like parseCsv, but reads a file's bytes chunk by chunk (File.stream()), so a large
+ * file is never held as one string. The delimiter is detected once the header line is in.
+ */
+export async function parseCsvStream(stream: ReadableStream<Uint8Array>, delimiter?: CsvDelimiter): Promise<ParsedSong[]> {
+  const bytes = stream.getReader();
+  const decoder = new TextDecoder();
+  const records: CsvRecord[] = [];
+  let reader: CsvReader | null = null;
+  let head = '';
 
-    // Use empty string if lyrics column is missing or empty
-    const lyrics = lyricsIdx !== -1 && lyricsIdx < cols.length
-      ? cols[lyricsIdx]?.trim() ?? ''
-      : '';
+  const feed = (text: string) => {
+    if (reader) {
+      records.push(...reader.write(text));
+      return;
+    }
+    // Hold the start of the file until the header line is complete
+    head += text;
+    if (delimiter || /[\r\n]/.test(head)) {
+      reader = createCsvReader(delimiter ?? detectDelimiter(head));
+      records.push(...reader.write(head));
+    }
+  };
 
-    const downloadFolder = folderIdx !== -1 && folderIdx < cols.length
-      ? cols[folderIdx]?.trim()
-      : undefined;
+  for (;;) {
+    const { done, value } = await bytes.read();
+    if (done) break;
+    // stream: true keeps a multi-byte character split across chunks for the next one
+    feed(decoder.decode(value, { stream: true }));
+  }
+  feed(decoder.decode());
 
-    results.push({
-      title: cols[titleIdx]?.trim() ?? '',
-      style: cols[styleIdx]?.trim() ?? '',
-      lyrics,
-      instrumental,
-      downloadFolder,
-    });
+  // A file without a line break is all header
+  if (!reader) {
+    reader = createCsvReader(delimiter ?? detectDelimiter(head));
+    records.push(...reader.write(head));
   }
+  records.push(...reader.end());
+  return songsFromTable(records);
+}
 
-  return results;
+/**
+ * Songs from a table whose first record is the header (CSV, TSV, a spreadsheet).
+ * Columns are matched by header name (see FIELD_ALIASES); title and style are required.
+ * Rows with 'matrix.<variable>' or 'repeat' cells are expanded as templates.
+ */
+export function songsFromTable(records: CsvRecord[]): ParsedSong[] {
+  if (records.length < 2) throw new Error('Table must have a header row and at least one data row');
+
+  const [header, ...rows] = records;
+  const fields = header.fields.map(fieldForName);
+  const missing = (['title', 'style'] as const).filter((f) => !fields.includes(f));
+  if (missing.length > 0) {
+    throw importError(
+      `Missing ${missing.join(' and ')} column (accepted headers: ${missing.map((f) => FIELD_ALIASES[f].join(', ')).join('; ')})`,
+      header.row,
+    );
+  }
+
+  return rows.flatMap(({ fields: cells, row }) => {
+    const named: Record<string, string> = {};
+    header.fields.forEach((name, i) => {
+      if (!(name in named)) named[name] = cells[i] ?? '';
+    });
+    return expandTemplate({ row, song: songFromFields(named) }, named);
+  });
 }
 
-/** Simple CSV line parser that handles quoted fields */
-function parseCsvLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
+/** Delimiter used by the header line: the most frequent of ',', ';' and tab outside quotes */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(DELIMITERS.map((d) => [d, 0]));
   let inQuotes = false;
+  for (const ch of text.replace(/^\uFEFF/, '')) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) break;
+    else if (!inQuotes && counts.has(ch as CsvDelimiter)) counts.set(ch as CsvDelimiter, counts.get(ch as CsvDelimiter)! + 1);
+  }
+  return DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), ',');
+}
+
+/**
+ * RFC 4180 reader fed in chunks, so a record may span any number of them.
+ * Quoted fields can hold delimiters, "" escapes and line breaks (CRLF, LF
+ * or CR; kept as \n). A leading UTF-8 BOM is dropped and blank lines are
+ * skipped, though they still count as rows.
+ */
+export function createCsvReader(delimiter: CsvDelimiter = ','): CsvReader {
+  let state: 'fieldStart' | 'unquoted' | 'quoted' | 'closingQuote' = 'fieldStart';
+  let field = '';
+  let fields: string[] = [];
+  let row = 1;
+  // Physical line, which runs ahead of row after a quoted cell with line breaks
+  let line = 1;
+  let quoteStart: (CsvPosition & { line: number }) | null = null;
+  let skipLineFeed = false;
+  let started = false;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    state = 'fieldStart';
+  };
+
+  const endRecord = (out: CsvRecord[]) => {
+    endField();
+    const blank = fields.length === 1 && fields[0] === '';
+    if (!blank) out.push({ fields, row });
+    fields = [];
+    row++;
+  };
 
-  for (let i = 0; i < line.length; i++) {
-    const ch = line[i];
-
-    if (inQuotes) {
-      if (ch === '"') {
-        if (line[i + 1] === '"') {
-          current += '"';
-          i++;
-        } else {
-          inQuotes = false;
-        }
-      } else {
-        current += ch;
+  const write = (chunk: string): CsvRecord[] => {
+    const out: CsvRecord[] = [];
+    let text = chunk;
+    if (!started && text.length > 0) {
+      started = true;
+      text = text.replace(/^\uFEFF/, '');
+    }
+
+    for (const ch of text) {
+      // Second half of a CRLF pair that already ended the line
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (ch === '\n') continue;
       }
-    } else {
-      if (ch === '"') {
-        inQuotes = true;
-      } else if (ch === ',') {
-        result.push(current);
-        current = '';
-      } else {
-        current += ch;
+      if (ch === '\n' || ch === '\r') line++;
+
+      switch (state) {
+        case 'fieldStart':
+        case 'unquoted':
+          if (ch === '"' && state === 'fieldStart') {
+            state = 'quoted';
+            quoteStart = { row, column: fields.length + 1, line };
+          } else if (ch === delimiter) {
+            endField();
+          } else if (ch === '\n' || ch === '\r') {
+            skipLineFeed = ch === '\r';
+            endRecord(out);
+          } else {
+            // A quote inside an unquoted field (12" vinyl) is kept as text
+            field += ch;
+            state = 'unquoted';
+          }
+          break;
+        case 'quoted':
+          if (ch === '"') {
+            state = 'closingQuote';
+          } else if (ch === '\r') {
+            field += '\n';
+            skipLineFeed = true;
+          } else {
+            field += ch;
+          }
+          break;
+        case 'closingQuote':
+          if (ch === '"') {
+            field += '"';
+            state = 'quoted';
+          } else if (ch === delimiter) {
+            endField();
+          } else if (ch === '\n' || ch === '\r') {
+            skipLineFeed = ch === '\r';
+            endRecord(out);
+          } else {
+            throw importError(
+              `Unexpected ${JSON.stringify(ch)} after closing quote${lineNote(line, row)}; quotes inside a quoted field must be doubled ("")`,
+              row,
+              fields.length + 1,
+            );
+          }
+          break;
       }
     }
-  }
+    return out;
+  };
+
+  const end = (): CsvRecord[] => {
+    if (state === 'quoted' && quoteStart) {
+      throw importError(`Quoted field${lineNote(quoteStart.line, quoteStart.row)} is never closed`, quoteStart.row, quoteStart.column);
+    }
+    const out: CsvRecord[] = [];
+    if (field !== '' || fields.length > 0 || state === 'closingQuote') endRecord(out);
+    return out;
+  };
+
+  return { write, end };
+}
 
-  result.push(current);
-  return result;
+/** ' (line N)' when a multi-line cell above moved the line away from the row number */
+function lineNote(line: number, row: number): string {
+  return line === row ? '' : ` (line ${line})`;
 }
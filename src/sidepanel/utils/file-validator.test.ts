@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TITLE_LENGTH, UNTITLED_SONG } from '../../config/constants';
+import { formatImportError, isSameSong, normalizeSong, parseFile, songWarnings, toSongDraft, validateSong } from './file-validator';
+
+describe('parseFile', () => {
+  it('reads a JSON array with each song numbered by position', () => {
+    const { songs, errors } = parseFile('songs.JSON', '[{"title":"A","style":"pop"},{"title":"B","style":"rock"}]');
+    expect(errors).toEqual([]);
+    expect(songs.map((s) => [s.song.title, s.row])).toEqual([['A', 1], ['B', 2]]);
+  });
+
+  it('reports what stopped parsing instead of throwing', () => {
+    expect(parseFile('songs.json', '{"title":"A"}').errors[0].message).toMatch(/must be an array/);
+    expect(parseFile('songs.csv', 'title,style\nA,"pop').errors).toEqual([{ message: 'Quoted field is never closed', row: 2, column: 2 }]);
+    expect(parseFile('songs.txt', 'A').errors[0].message).toMatch(/^Unsupported file type/);
+  });
+});
+
+describe('formatImportError', () => {
+  it.each([
+    [{ message: 'Bad' }, 'Bad'],
+    [{ message: 'Bad', row: 3 }, 'Row 3: Bad'],
+    [{ message: 'Bad', row: 3, column: 2 }, 'Row 3, column 2: Bad'],
+    [{ message: 'Bad', row: 3, source: 'album/songs.csv' }, 'album/songs.csv: Row 3: Bad'],
+  ])('%j → %s', (error, expected) => {
+    expect(formatImportError(error)).toBe(expected);
+  });
+});
+
+describe('toSongDraft', () => {
+  it('turns JSON numbers, nulls and missing fields into strings the preview can validate', () => {
+    const { songs } = parseFile('songs.json', '[{"title":1984,"style":null,"instrumental":"yes","downloadFolder":7}]');
+    const draft = toSongDraft(songs[0].song);
+    expect(draft).toEqual({ title: '1984', style: '', lyrics: '', instrumental: true, downloadFolder: '7' });
+    expect(validateSong(draft)).toBe('missing style');
+  });
+});
+
+describe('validateSong', () => {
+  it('requires a style, and lyrics unless instrumental', () => {
+    expect(validateSong({ title: 'A', style: ' ', lyrics: 'la' })).toBe('missing style');
+    expect(validateSong({ title: 'A', style: 'pop', lyrics: ' ' })).toMatch(/^missing lyrics/);
+    expect(validateSong({ title: 'A', style: 'pop', instrumental: true })).toBeNull();
+  });
+
+  it('rejects unsafe download folders', () => {
+    expect(validateSong({ style: 'pop', lyrics: 'la', downloadFolder: '../x' })).toMatch(/'\.\.'/);
+    expect(validateSong({ style: 'pop', lyrics: 'la', downloadFolder: 'Album/Disc 1' })).toBeNull();
+  });
+});
+
+describe('songWarnings', () => {
+  it('warns about what Suno will not use as given', () => {
+    expect(songWarnings({ title: '', style: 'pop', lyrics: 'la' })).toEqual([`empty title (queued as "${UNTITLED_SONG}")`]);
+    expect(songWarnings({ title: 'x'.repeat(MAX_TITLE_LENGTH + 1), style: 'pop', lyrics: 'la' })).toEqual([`title over ${MAX_TITLE_LENGTH} chars`]);
+    expect(songWarnings({ title: 'A', style: 'pop', lyrics: 'la', instrumental: true })).toEqual(['lyrics are ignored for instrumental tracks']);
+    expect(songWarnings({ title: 'A', style: 'pop', lyrics: 'la' })).toEqual([]);
+  });
+});
+
+describe('normalizeSong and isSameSong', () => {
+  it('trims fields and names untitled songs', () => {
+    expect(normalizeSong({ title: ' ', style: ' pop ', lyrics: ' la ' })).toEqual({
+      title: UNTITLED_SONG,
+      style: 'pop',
+      lyrics: 'la',
+      instrumental: false,
+      downloadFolder: undefined,
+    });
+  });
+
+  it('compares songs once normalized', () => {
+    const song = { title: 'A', style: 'pop', lyrics: 'la' };
+    expect(isSameSong(song, { title: ' A ', style: 'pop ', lyrics: 'la', instrumental: false, downloadFolder: '' })).toBe(true);
+    expect(isSameSong(song, { ...song, downloadFolder: 'Disc 1' })).toBe(false);
+    expect(isSameSong(song, { ...song, instrumental: true })).toBe(false);
+  });
+});
@@ -1,63 +1,175 @@
 import type { SongInput } from '../../types/job';
-import { parseCsv } from './csv-parser';
+import { parseCsv, parseCsvStream } from './csv-parser';
+import { parseMarkdown } from './markdown-parser';
+import { parseXlsx } from './xlsx-parser';
+import { parseYaml } from './yaml-parser';
+import { expandTemplate } from './song-template';
+import { parseBoolean } from './song-fields';
+import { validateFolderPath } from '../../utils/download-path';
+import { MAX_LYRICS_LENGTH, MAX_STYLE_LENGTH, MAX_TITLE_LENGTH, UNTITLED_SONG } from '../../config/constants';
 
+/** A song read from a file and the row it came from (CSV: spreadsheet row, header = 1; JSON: array position) */
+export interface ParsedSong {
+  song: SongInput;
+  row: number;
+  /** File the row came from, when an import reads several files */
+  source?: string;
+  /** Matrix values ('style=lofi · #2') when the row was expanded from a template */
+  variant?: string;
+}
+
+/** An import problem; row and column (1-based) point into the file when known */
+export interface ImportError {
+  message: string;
+  row?: number;
+  column?: number;
+  /** File the problem is in, when an import reads several files */
+  source?: string;
+}
+
+/** Every row of the file, valid or not (validation happens in the import preview), or the error that stopped parsing */
 export interface ParseResult {
-  songs: SongInput[];
-  errors: string[];
+  songs: ParsedSong[];
+  errors: ImportError[];
 }
 
-export function parseFile(fileName: string, content: string): ParseResult {
-  const ext = fileName.split('.').pop()?.toLowerCase();
-  const errors: string[] = [];
+/** Extensions the importer reads, for file inputs and messages */
+export const IMPORT_EXTENSIONS = ['json', 'csv', 'tsv', 'yaml', 'yml', 'xlsx', 'md', 'markdown'];
 
-  let songs: SongInput[] = [];
+const UNSUPPORTED: ImportError = { message: 'Unsupported file type. Use .json, .csv, .tsv, .yaml, .xlsx or .md' };
 
+/**
+ * Read and parse a picked or dropped file: CSV/TSV are streamed through the reader,
+ * .xlsx is read as binary and everything else as UTF-8 text
+ */
+export async function readImportFile(file: File): Promise<ParseResult> {
+  const extension = extensionOf(file.name);
+  if (extension !== 'xlsx' && extension !== 'csv' && extension !== 'tsv') return parseFile(file.name, await file.text());
   try {
-    if (ext === 'json') {
-      songs = parseJson(content);
-    } else if (ext === 'csv') {
-      songs = parseCsv(content);
-    } else {
-      return { songs: [], errors: ['Unsupported file type. Use .json or .csv'] };
-    }
+    const songs = extension === 'xlsx'
+      ? await parseXlsx(await file.arrayBuffer())
+      : await parseCsvStream(file.stream(), extension === 'tsv' ? '\t' : undefined);
+    return { songs, errors: [] };
   } catch (e) {
-    return { songs: [], errors: [(e as Error).message] };
+    return { songs: [], errors: [toImportError(e)] };
   }
+}
 
-  // Validate each song
-  const valid: SongInput[] = [];
-  songs.forEach((song, i) => {
-    const row = i + 1;
-    if (!song.title?.trim()) {
-      errors.push(`Row ${row}: missing title`);
-      return;
-    }
-    if (!song.style?.trim()) {
-      errors.push(`Row ${row}: missing style`);
-      return;
-    }
-    if (!song.instrumental && !song.lyrics?.trim()) {
-      errors.push(`Row ${row}: missing lyrics (set instrumental=true for instrumental tracks)`);
-      return;
+/** Parse a text import file by its extension */
+export function parseFile(fileName: string, content: string): ParseResult {
+  try {
+    switch (extensionOf(fileName)) {
+      case 'json':
+        return { songs: parseJson(content), errors: [] };
+      case 'csv':
+        return { songs: parseCsv(content), errors: [] };
+      case 'tsv':
+        return { songs: parseCsv(content, '\t'), errors: [] };
+      case 'yaml':
+      case 'yml':
+        return { songs: parseYaml(content), errors: [] };
+      case 'md':
+      case 'markdown':
+        return { songs: parseMarkdown(content), errors: [] };
+      default:
+        return { songs: [], errors: [UNSUPPORTED] };
     }
-    valid.push({
-      title: song.title.trim(),
-      style: song.style.trim(),
-      lyrics: song.lyrics?.trim() ?? '',
-      instrumental: !!song.instrumental,
-      downloadFolder: song.downloadFolder?.trim(),
-    });
-  });
+  } catch (e) {
+    return { songs: [], errors: [toImportError(e)] };
+  }
+}
+
+/** "Row 3, column 2: message", prefixed with the file when the import read several */
+export function formatImportError({ message, row, column, source }: ImportError): string {
+  const prefix = source ? `${source}: ` : '';
+  if (row === undefined) return `${prefix}${message}`;
+  return `${prefix}Row ${row}${column !== undefined ? `, column ${column}` : ''}: ${message}`;
+}
+
+function extensionOf(fileName: string): string | undefined {
+  return fileName.split('.').pop()?.toLowerCase();
+}
+
+/** Parsers tag positioned errors with row (and column); others carry only a message */
+export function toImportError(e: unknown): ImportError {
+  const { message, row, column } = e as Error & Partial<ImportError>;
+  return { message, row, column };
+}
+
+/** Returns the reason a song cannot be queued, or null if it is valid */
+export function validateSong(song: Partial<SongInput>): string | null {
+  if (!song.style?.trim()) return 'missing style';
+  if (!song.instrumental && !song.lyrics?.trim()) {
+    return 'missing lyrics (set instrumental=true for instrumental tracks)';
+  }
+  if (song.downloadFolder?.trim()) return validateFolderPath(song.downloadFolder);
+  return null;
+}
 
-  return { songs: valid, errors };
+/** Things that do not block queueing but are probably not what the user meant */
+export function songWarnings(song: Partial<SongInput>): string[] {
+  const warnings: string[] = [];
+  const title = song.title?.trim() ?? '';
+  if (!title) warnings.push(`empty title (queued as "${UNTITLED_SONG}")`);
+  else if (title.length > MAX_TITLE_LENGTH) warnings.push(`title over ${MAX_TITLE_LENGTH} chars`);
+  if ((song.style?.trim().length ?? 0) > MAX_STYLE_LENGTH) warnings.push(`style over ${MAX_STYLE_LENGTH} chars`);
+  if (song.instrumental) {
+    if (song.lyrics?.trim()) warnings.push('lyrics are ignored for instrumental tracks');
+  } else if ((song.lyrics?.trim().length ?? 0) > MAX_LYRICS_LENGTH) {
+    warnings.push(`lyrics over ${MAX_LYRICS_LENGTH} chars`);
+  }
+  return warnings;
+}
+
+/** Whether two inputs queue the same song once normalized */
+export function isSameSong(a: SongInput, b: SongInput): boolean {
+  const x = normalizeSong(a);
+  const y = normalizeSong(b);
+  return x.title === y.title
+    && x.style === y.style
+    && x.lyrics === y.lyrics
+    && x.instrumental === y.instrumental
+    && (x.downloadFolder || '') === (y.downloadFolder || '');
+}
+
+/**
+ * A parsed row as the import preview edits it. JSON rows are taken as written, so
+ * fields may be missing, numbers or null; the other formats already give strings.
+ */
+export function toSongDraft(song: SongInput): SongInput {
+  const { title, style, lyrics, instrumental, downloadFolder } = song as Partial<Record<keyof SongInput, unknown>>;
+  return {
+    ...song,
+    title: String(title ?? ''),
+    style: String(style ?? ''),
+    lyrics: String(lyrics ?? ''),
+    instrumental: parseBoolean(instrumental),
+    downloadFolder: downloadFolder === undefined || downloadFolder === null ? undefined : String(downloadFolder),
+  };
+}
+
+/** Trim fields of a validated song */
+export function normalizeSong(song: SongInput): SongInput {
+  return {
+    title: song.title?.trim() || UNTITLED_SONG,
+    style: song.style.trim(),
+    lyrics: song.lyrics?.trim() ?? '',
+    instrumental: !!song.instrumental,
+    downloadFolder: song.downloadFolder?.trim(),
+  };
 }
 
-function parseJson(content: string): SongInput[] {
+function parseJson(content: string): ParsedSong[] {
   const parsed = JSON.parse(content);
 
-  if (!Array.isArray(parsed)) {
-    throw new Error('JSON must be an array of song objects');
+  // A lone object is accepted as a single template row
+  const isTemplate = typeof parsed === 'object' && parsed !== null && ('matrix' in parsed || 'repeat' in parsed);
+  if (!Array.isArray(parsed) && !isTemplate) {
+    throw new Error('JSON must be an array of song objects or a template with "matrix"/"repeat"');
   }
 
-  return parsed as SongInput[];
+  return (Array.isArray(parsed) ? parsed : [parsed]).flatMap((item: Record<string, unknown>, i) => {
+    const { matrix, repeat, ...song } = item ?? {};
+    return expandTemplate({ song: song as unknown as SongInput, row: i + 1 }, { matrix, repeat });
+  });
 }
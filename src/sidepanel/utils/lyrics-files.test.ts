@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { isLyricsBatch, parseLyricsFiles, type DroppedFile } from './lyrics-files';
+
+function dropped(path: string, text = ''): DroppedFile {
+  return { file: new File([text], path.split('/').pop()!), path };
+}
+
+describe('isLyricsBatch', () => {
+  it.each([
+    [['song.txt'], true],
+    [['a.md', 'b.md'], true],
+    [['album/song.md'], true],
+    [['songbook.md'], false],
+    [['songs.csv'], false],
+    [[], false],
+  ])('%j → %s', (paths, expected) => {
+    expect(isLyricsBatch(paths.map((p) => dropped(p)))).toBe(expected);
+  });
+});
+
+describe('parseLyricsFiles', () => {
+  it('makes one song per file, titled from the name and sorted naturally', async () => {
+    const { songs, errors } = await parseLyricsFiles([
+      dropped('album/10 Outro.txt', 'bye'),
+      dropped('album/2 Intro.md', '\uFEFF\n hello \n'),
+      dropped('album/.DS_Store'),
+    ]);
+    expect(errors).toEqual([]);
+    expect(songs).toEqual([
+      { row: 1, source: 'album/2 Intro.md', song: { title: '2 Intro', style: '', lyrics: 'hello', instrumental: false, downloadFolder: undefined } },
+      { row: 2, source: 'album/10 Outro.txt', song: { title: '10 Outro', style: '', lyrics: 'bye', instrumental: false, downloadFolder: undefined } },
+    ]);
+  });
+
+  it('applies the manifest of the same folder by file name, with or without extension', async () => {
+    const { songs } = await parseLyricsFiles([
+      dropped('a/manifest.csv', 'File;Style;Instrumental;Folder\none.txt;pop;no;Disc 1\ntwo;ambient;yes;\n'),
+      dropped('a/one.txt', 'la'),
+      dropped('a/two.txt', ''),
+      dropped('b/one.txt', 'la'),
+    ]);
+    expect(songs.map((s) => [s.source, s.song.style, s.song.instrumental, s.song.downloadFolder])).toEqual([
+      ['a/one.txt', 'pop', false, 'Disc 1'],
+      ['a/two.txt', 'ambient', true, undefined],
+      ['b/one.txt', '', false, undefined],
+    ]);
+  });
+
+  it('reports a manifest without a file column and skips other files', async () => {
+    const { songs, errors } = await parseLyricsFiles([
+      dropped('manifest.csv', 'name,style\none,pop\n'),
+      dropped('one.txt', 'la'),
+      dropped('cover.png'),
+    ]);
+    expect(songs).toHaveLength(1);
+    expect(errors).toEqual([
+      { message: expect.stringMatching(/^Missing file column/), row: 1, column: undefined, source: 'manifest.csv' },
+      { message: 'Skipped 1 file(s) that are not .txt or .md: cover.png' },
+    ]);
+  });
+
+  it('says so when there is nothing to import', async () => {
+    expect(await parseLyricsFiles([])).toEqual({ songs: [], errors: [{ message: 'No .txt or .md lyric files found' }] });
+  });
+});
@@ -0,0 +1,154 @@
+import type { SongInput } from '../../types/job';
+import { createCsvReader, detectDelimiter } from './csv-parser';
+import { toImportError, type ImportError, type ParseResult, type ParsedSong } from './file-validator';
+import { importError, songFromFields } from './song-fields';
+
+/** A picked or dropped file and its path relative to the drop ('album/01 Intro.txt') */
+export interface DroppedFile {
+  file: File;
+  path: string;
+}
+
+/** Extensions read as one song per file (lyrics only; the title is the filename) */
+export const LYRICS_EXTENSIONS = ['txt', 'md'];
+
+const MANIFEST_NAME = 'manifest.csv';
+const FILE_COLUMN_NAMES = ['file', 'filename', 'path'];
+
+type ManifestEntry = Pick<SongInput, 'style' | 'instrumental' | 'downloadFolder'>;
+
+/**
+ * Files of a drop, with folders walked recursively. Entries are taken before
+ * the first await because the browser clears the DataTransfer once the drop
+ * handler returns.
+ */
+export async function collectDroppedFiles(items: DataTransferItemList): Promise<DroppedFile[]> {
+  const entries = [...items].flatMap((item) => {
+    const entry = item.kind === 'file' ? item.webkitGetAsEntry() : null;
+    return entry ? [entry] : [];
+  });
+  const files: DroppedFile[] = [];
+  for (const entry of entries) await walkEntry(entry, files);
+  return files;
+}
+
+/** Files from an <input type="file"> (webkitRelativePath is set for folder picks) */
+export function filesFromInput(list: FileList): DroppedFile[] {
+  return [...list].map((file) => ({ file, path: file.webkitRelativePath || file.name }));
+}
+
+/**
+ * Whether a drop is a batch of lyric files rather than one songbook: several
+ * files, anything from a folder, or a single .txt. A lone .md stays a
+ * Markdown songbook.
+ */
+export function isLyricsBatch(files: DroppedFile[]): boolean {
+  return files.length > 1 || files.some((f) => f.path.includes('/')) || extensionOf(files[0]?.path ?? '') === 'txt';
+}
+
+/**
+ * One song per .txt/.md file, titled from the filename with the file's text as
+ * lyrics. A manifest.csv in the same folder sets style, instrumental and
+ * downloadFolder per file (a 'file' column names the file, with or without
+ * extension); files it does not list get an empty style, to be filled from a
+ * shared style in the import preview. Other files are reported and skipped.
+ */
+export async function parseLyricsFiles(files: DroppedFile[]): Promise<ParseResult> {
+  const errors: ImportError[] = [];
+  const manifests = new Map<string, Map<string, ManifestEntry>>();
+  for (const { file, path } of files.filter((f) => baseName(f.path).toLowerCase() === MANIFEST_NAME)) {
+    try {
+      manifests.set(dirName(path), parseManifest(await file.text()));
+    } catch (e) {
+      errors.push({ ...toImportError(e), source: path });
+    }
+  }
+
+  const lyricsFiles = files
+    .filter((f) => LYRICS_EXTENSIONS.includes(extensionOf(f.path)))
+    .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+  const ignored = files.filter(
+    (f) => !lyricsFiles.includes(f) && baseName(f.path).toLowerCase() !== MANIFEST_NAME && !baseName(f.path).startsWith('.'),
+  );
+  if (ignored.length > 0) {
+    errors.push({ message: `Skipped ${ignored.length} file(s) that are not .txt or .md: ${ignored.map((f) => f.path).join(', ')}` });
+  }
+
+  const songs: ParsedSong[] = [];
+  for (const [i, { file, path }] of lyricsFiles.entries()) {
+    const name = baseName(path);
+    const title = stripExtension(name);
+    const manifest = manifests.get(dirName(path));
+    const entry = manifest?.get(name.toLowerCase()) ?? manifest?.get(title.toLowerCase());
+    songs.push({
+      row: i + 1,
+      source: path,
+      song: {
+        title,
+        style: entry?.style ?? '',
+        lyrics: (await file.text()).replace(/^\uFEFF/, '').trim(),
+        instrumental: entry?.instrumental ?? false,
+        downloadFolder: entry?.downloadFolder,
+      },
+    });
+  }
+  if (songs.length === 0 && errors.length === 0) errors.push({ message: 'No .txt or .md lyric files found' });
+  return { songs, errors };
+}
+
+/** Manifest rows by lowercased file name */
+function parseManifest(text: string): Map<string, ManifestEntry> {
+  const reader = createCsvReader(detectDelimiter(text));
+  const [header, ...rows] = [...reader.write(text), ...reader.end()];
+  const fileColumn = header?.fields.findIndex((name) => FILE_COLUMN_NAMES.includes(name.trim().toLowerCase().replace(/[\s_-]+/g, '')));
+  if (!header || fileColumn === undefined || fileColumn < 0) {
+    throw importError(`Missing file column (accepted headers: ${FILE_COLUMN_NAMES.join(', ')})`, header?.row ?? 1);
+  }
+
+  const entries = new Map<string, ManifestEntry>();
+  for (const { fields, row } of rows) {
+    const file = baseName(fields[fileColumn]?.trim() ?? '');
+    if (!file) throw importError('Missing file name', row, fileColumn + 1);
+    const named: Record<string, string> = {};
+    header.fields.forEach((name, i) => {
+      if (i !== fileColumn && !(name in named)) named[name] = fields[i] ?? '';
+    });
+    const { style, instrumental, downloadFolder } = songFromFields(named);
+    entries.set(file.toLowerCase(), { style, instrumental, downloadFolder });
+  }
+  return entries;
+}
+
+async function walkEntry(entry: FileSystemEntry, files: DroppedFile[]): Promise<void> {
+  const path = entry.fullPath.replace(/^\//, '');
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    files.push({ file, path });
+    return;
+  }
+  if (!entry.isDirectory) return;
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns the folder in batches until an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    for (const child of batch) await walkEntry(child, files);
+  }
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop() ?? path;
+}
+
+function dirName(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[^.]+$/, '').trim() || name;
+}
+
+function extensionOf(path: string): string {
+  const match = baseName(path).match(/\.([^.]+)$/);
+  return match ? match[1].toLowerCase() : '';
+}
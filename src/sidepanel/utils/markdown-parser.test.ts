@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkdown } from './markdown-parser';
+
+describe('parseMarkdown', () => {
+  it('starts a song at every "# " heading, keeping subheadings in the lyrics', () => {
+    const songs = parseMarkdown([
+      'Songbook notes, ignored',
+      '# First Song #',
+      'style: indie pop',
+      'folder: Album',
+      '',
+      '## Verse',
+      'Line one',
+      '',
+      '# Second',
+      '---',
+      'tags: ambient',
+      '',
+      'instrumental: yes',
+      '---',
+    ].join('\r\n'));
+
+    expect(songs).toEqual([
+      { row: 2, song: { title: 'First Song', style: 'indie pop', lyrics: '## Verse\nLine one', instrumental: false, downloadFolder: 'Album' } },
+      { row: 9, song: { title: 'Second', style: 'ambient', lyrics: '', instrumental: true, downloadFolder: undefined } },
+    ]);
+  });
+
+  it('reads unfenced lines that are not front matter as lyrics', () => {
+    const [{ song }] = parseMarkdown('# Song\nstyle: rock\nChorus: sing it\nla la\n');
+    expect(song).toMatchObject({ style: 'rock', lyrics: 'Chorus: sing it\nla la' });
+  });
+
+  it('does not let front matter set the title or lyrics', () => {
+    const [{ song }] = parseMarkdown('# Song\nstyle: rock\ntitle: Other\n');
+    expect(song).toMatchObject({ title: 'Song', lyrics: 'title: Other' });
+  });
+
+  it('reports unknown lines in fenced front matter', () => {
+    expect(() => parseMarkdown('# Song\n---\nstyle: rock\ntitle: Other\n---\n')).toThrow(expect.objectContaining({ row: 4 }));
+  });
+
+  it('requires at least one heading', () => {
+    expect(() => parseMarkdown('## Verse\nla la')).toThrow(/No songs found/);
+  });
+});
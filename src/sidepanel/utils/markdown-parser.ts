@@ -0,0 +1,63 @@
+import type { ParsedSong } from './file-validator';
+import { fieldForName, importError, songFromFields, type SongField } from './song-fields';
+
+/** Fields a song's front matter may set; the title comes from the heading and the lyrics from the body */
+const FRONT_MATTER_FIELDS: SongField[] = ['style', 'instrumental', 'downloadFolder'];
+
+/**
+ * Parse a Markdown songbook: every '# Title' heading starts a song. Right
+ * below it, 'style: …', 'instrumental: …' and 'folder: …' lines (optionally
+ * fenced by '---') set its fields; the rest up to the next '# ' heading is
+ * the lyrics, so '## Verse' subheadings stay part of them. Text before the
+ * first heading is ignored. Rows are the line numbers of the headings.
+ */
+export function parseMarkdown(text: string): ParsedSong[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const songs: ParsedSong[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const heading = lines[i].match(/^#\s+(.*?)\s*#*\s*$/);
+    if (!heading) {
+      i++;
+      continue;
+    }
+
+    const row = i + 1;
+    const fields: Record<string, string> = { title: heading[1] };
+    i++;
+
+    // Front matter: blank lines, an optional '---' fence and known 'key: value' lines
+    while (i < lines.length && !lines[i].trim()) i++;
+    const fenced = lines[i]?.trim() === '---';
+    if (fenced) i++;
+    while (i < lines.length) {
+      const line = lines[i].trim();
+      if (fenced && line === '---') {
+        i++;
+        break;
+      }
+      const entry = line.match(/^([\w -]+):\s*(.*)$/);
+      const field = entry ? fieldForName(entry[1]) : undefined;
+      if (!entry || !field || !FRONT_MATTER_FIELDS.includes(field)) {
+        if (fenced && line) throw importError(`Unknown front matter line "${line}"`, i + 1);
+        if (fenced) {
+          i++;
+          continue;
+        }
+        break;
+      }
+      fields[entry[1]] = entry[2];
+      i++;
+    }
+
+    const body: string[] = [];
+    while (i < lines.length && !/^#\s/.test(lines[i])) body.push(lines[i++]);
+    fields.lyrics = body.join('\n').trim();
+
+    songs.push({ row, song: songFromFields(fields) });
+  }
+
+  if (songs.length === 0) throw new Error('No songs found; start each song with a "# Title" heading');
+  return songs;
+}
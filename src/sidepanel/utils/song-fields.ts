@@ -0,0 +1,57 @@
+import type { SongInput } from '../../types/job';
+
+export type SongField = keyof Omit<SongInput, 'notionPageId'>;
+
+/**
+ * Accepted names per song field for spreadsheet headers, YAML keys and
+ * Markdown front matter; compared without case, spaces, '_' or '-'.
+ */
+export const FIELD_ALIASES: Record<SongField, string[]> = {
+  title: ['title', 'name', 'song', 'songtitle'],
+  style: ['style', 'tags', 'genre', 'styles'],
+  lyrics: ['lyrics', 'prompt', 'text'],
+  instrumental: ['instrumental', 'makeinstrumental'],
+  downloadFolder: ['downloadfolder', 'folder', 'album'],
+};
+
+/** Parse error tagged with its 1-based position in the file (row as the parser counts it) */
+export function importError(message: string, row: number, column?: number): Error & { row: number; column?: number } {
+  return Object.assign(new Error(message), { row, column });
+}
+
+/** Song field a header or key names, if any */
+export function fieldForName(name: string): SongField | undefined {
+  const normalized = name.trim().toLowerCase().replace(/[\s_-]+/g, '');
+  return (Object.keys(FIELD_ALIASES) as SongField[]).find((field) => FIELD_ALIASES[field].includes(normalized));
+}
+
+export function parseBoolean(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  return /^(true|yes|y|1)$/i.test(String(value ?? '').trim());
+}
+
+/**
+ * Song from loosely named fields; the first name matching a field wins.
+ * Lists (e.g. YAML tags) are joined with ', '. Unknown names are ignored.
+ */
+export function songFromFields(fields: Record<string, unknown>): SongInput {
+  const values: Partial<Record<SongField, unknown>> = {};
+  for (const [name, value] of Object.entries(fields)) {
+    const field = fieldForName(name);
+    if (field && !(field in values)) values[field] = value;
+  }
+
+  const text = (value: unknown) => {
+    if (value === undefined || value === null) return undefined;
+    return (Array.isArray(value) ? value.map(String).join(', ') : String(value)).trim();
+  };
+
+  return {
+    title: text(values.title) ?? '',
+    style: text(values.style) ?? '',
+    // Use empty string if lyrics are missing or empty
+    lyrics: text(values.lyrics) ?? '',
+    instrumental: parseBoolean(values.instrumental),
+    downloadFolder: text(values.downloadFolder) || undefined,
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TEMPLATE_JOBS } from '../../config/constants';
+import { parseCsv } from './csv-parser';
+import type { ParsedSong } from './file-validator';
+import { expandTemplate } from './song-template';
+
+const row: ParsedSong = {
+  row: 4,
+  song: { title: '{{mood}} {{index}}', style: '{{genre}}, {{mood}}', lyrics: 'Take {{ repeat }}', instrumental: false, downloadFolder: '{{genre}}' },
+};
+
+describe('expandTemplate', () => {
+  it('returns a row without matrix or repeat as is', () => {
+    expect(expandTemplate(row, { title: 'x', repeat: '', matrix: null })).toEqual([row]);
+  });
+
+  it('queues every matrix combination, the first variable varying slowest', () => {
+    const songs = expandTemplate(row, { matrix: { genre: ['pop', 'rock'], mood: ['calm', 'dark', 'loud'] } });
+    expect(songs.map((s) => s.song.style)).toEqual([
+      'pop, calm', 'pop, dark', 'pop, loud', 'rock, calm', 'rock, dark', 'rock, loud',
+    ]);
+    expect(songs[4]).toEqual({
+      row: 4,
+      variant: 'genre=rock · mood=dark',
+      song: { title: 'dark 5', style: 'rock, dark', lyrics: 'Take 1', instrumental: false, downloadFolder: 'rock' },
+    });
+  });
+
+  it('repeats each combination, numbering the repeats', () => {
+    const songs = expandTemplate(row, { matrix: { genre: 'pop', mood: ['calm'] }, repeat: 3 });
+    expect(songs.map((s) => [s.song.title, s.song.lyrics, s.variant])).toEqual([
+      ['calm 1', 'Take 1', 'genre=pop · mood=calm · #1'],
+      ['calm 2', 'Take 2', 'genre=pop · mood=calm · #2'],
+      ['calm 3', 'Take 3', 'genre=pop · mood=calm · #3'],
+    ]);
+  });
+
+  it('reads matrix.<variable> columns with |-separated values', () => {
+    const songs = parseCsv([
+      'title,style,lyrics,matrix.genre,Matrix:mood,repeat',
+      '{{mood}},{{genre}},la, pop | rock ,calm,',
+      'Plain,folk,la,,,',
+    ].join('\n'));
+    expect(songs.map((s) => [s.row, s.song.title, s.song.style, s.variant])).toEqual([
+      [2, 'calm', 'pop', 'genre=pop · mood=calm'],
+      [2, 'calm', 'rock', 'genre=rock · mood=calm'],
+      [3, 'Plain', 'folk', undefined],
+    ]);
+  });
+
+  it(`allows up to ${MAX_TEMPLATE_JOBS} jobs per row`, () => {
+    const fields = { matrix: { genre: ['pop', 'rock'], mood: ['calm'] }, repeat: MAX_TEMPLATE_JOBS / 2 };
+    expect(expandTemplate(row, fields)).toHaveLength(MAX_TEMPLATE_JOBS);
+
+    expect(() => expandTemplate(row, { ...fields, matrix: { genre: ['pop', 'rock', 'folk'], mood: ['calm'] } })).toThrow(
+      expect.objectContaining({ message: `Template expands to ${MAX_TEMPLATE_JOBS * 1.5} jobs; the limit is ${MAX_TEMPLATE_JOBS} per row`, row: 4 }),
+    );
+  });
+
+  it.each([
+    [{ matrix: ['pop'] }, '"matrix" must map each variable to a list of values'],
+    [{ matrix: { genre: [] } }, 'Matrix variable "genre" has no values'],
+    [{ repeat: '0' }, '"repeat" must be a whole number of at least 1, got "0"'],
+    [{ repeat: '1.5' }, '"repeat" must be a whole number of at least 1, got "1.5"'],
+    [{ matrix: { genre: ['pop'] } }, 'Unknown template variable {{mood}} in title'],
+  ])('%j fails with its row', (fields, message) => {
+    expect(() => expandTemplate(row, fields)).toThrow(expect.objectContaining({ message, row: 4 }));
+  });
+});
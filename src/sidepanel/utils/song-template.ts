@@ -0,0 +1,107 @@
+import type { SongInput } from '../../types/job';
+import type { ParsedSong } from './file-validator';
+import { importError } from './song-fields';
+import { MAX_TEMPLATE_JOBS } from '../../config/constants';
+
+/** Variables a template row expands over, in declaration order, and how often each combination is queued */
+interface SongTemplate {
+  matrix: [string, string[]][];
+  repeat: number;
+}
+
+const TEMPLATE_FIELDS = ['title', 'style', 'lyrics', 'downloadFolder'] as const;
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const MATRIX_COLUMN = /^matrix[.:](.+)$/i;
+
+/**
+ * Expand a template row into one song per combination of its matrix values,
+ * each queued 'repeat' times, filling {{variable}} placeholders in title,
+ * style, lyrics and downloadFolder. Besides the matrix variables, {{index}}
+ * (1-based position in the expansion) and {{repeat}} (1-based repeat number)
+ * are available. A row without a matrix or repeat is returned as is.
+ *
+ * The matrix is a 'matrix' map of variable → list (JSON, YAML) or
+ * 'matrix.<variable>' columns with '|'-separated values (CSV, TSV, XLSX);
+ * 'repeat' is a field or column of its own.
+ */
+export function expandTemplate(parsed: ParsedSong, fields: Record<string, unknown>): ParsedSong[] {
+  const template = templateFromFields(fields, parsed.row);
+  if (!template) return [parsed];
+
+  const total = template.matrix.reduce((n, [, values]) => n * values.length, template.repeat);
+  if (total > MAX_TEMPLATE_JOBS) {
+    throw importError(`Template expands to ${total} jobs; the limit is ${MAX_TEMPLATE_JOBS} per row`, parsed.row);
+  }
+
+  const expanded: ParsedSong[] = [];
+  for (const combination of cartesian(template.matrix)) {
+    for (let repeat = 1; repeat <= template.repeat; repeat++) {
+      const variables: Record<string, string> = {
+        index: String(expanded.length + 1),
+        repeat: String(repeat),
+        ...Object.fromEntries(combination),
+      };
+      const labels = combination.map(([name, value]) => `${name}=${value}`);
+      if (template.repeat > 1) labels.push(`#${repeat}`);
+      expanded.push({
+        ...parsed,
+        song: fillSong(parsed.song, variables, parsed.row),
+        variant: labels.join(' · '),
+      });
+    }
+  }
+  return expanded;
+}
+
+function templateFromFields(fields: Record<string, unknown>, row: number): SongTemplate | null {
+  const matrix: [string, string[]][] = [];
+  let repeatValue: unknown;
+
+  for (const [key, value] of Object.entries(fields)) {
+    const name = key.trim();
+    const column = name.match(MATRIX_COLUMN);
+    if (column) {
+      // CSV cells hold 'a | b | c'; an empty cell leaves the variable out for this row
+      const values = String(value ?? '').split('|').map((v) => v.trim()).filter(Boolean);
+      if (values.length > 0) matrix.push([column[1].trim(), values]);
+    } else if (name.toLowerCase() === 'matrix' && value !== undefined && value !== null && value !== '') {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        throw importError('"matrix" must map each variable to a list of values', row);
+      }
+      for (const [variable, values] of Object.entries(value)) {
+        const list = (Array.isArray(values) ? values : [values]).map((v) => String(v ?? '').trim());
+        if (list.length === 0) throw importError(`Matrix variable "${variable}" has no values`, row);
+        matrix.push([variable, list]);
+      }
+    } else if (name.toLowerCase() === 'repeat') {
+      repeatValue = value;
+    }
+  }
+
+  const repeatText = String(repeatValue ?? '').trim();
+  if (matrix.length === 0 && !repeatText) return null;
+  const repeat = repeatText ? Number(repeatText) : 1;
+  if (!Number.isInteger(repeat) || repeat < 1) throw importError(`"repeat" must be a whole number of at least 1, got "${repeatText}"`, row);
+  return { matrix, repeat };
+}
+
+/** Every combination of the variables' values, the first variable varying slowest */
+function cartesian(matrix: [string, string[]][]): [string, string][][] {
+  return matrix.reduce<[string, string][][]>(
+    (combinations, [name, values]) => combinations.flatMap((c) => values.map((v): [string, string][] => [...c, [name, v]])),
+    [[]],
+  );
+}
+
+function fillSong(song: SongInput, variables: Record<string, string>, row: number): SongInput {
+  const filled: SongInput = { ...song };
+  for (const field of TEMPLATE_FIELDS) {
+    const text = song[field];
+    if (typeof text !== 'string') continue;
+    filled[field] = text.replace(PLACEHOLDER, (_, name: string) => {
+      if (!(name in variables)) throw importError(`Unknown template variable {{${name}}} in ${field}`, row);
+      return variables[name];
+    });
+  }
+  return filled;
+}
@@ -0,0 +1,47 @@
+// @vitest-environment jsdom
+import { Blob as NodeBlob } from 'node:buffer';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { parseXlsx } from './xlsx-parser';
+
+/**
+ * songs.xlsx has two sheets. The first, "Songs", lives at a non-default path
+ * (xl/worksheets/songs.xml) and starts on row 2; it mixes shared strings (one
+ * with rich text runs, one with a phonetic hint, one with an Excel CRLF),
+ * inline strings, booleans, a formula result, a number and missing cells.
+ * The second sheet, at the default sheet1.xml path, must not be read.
+ */
+function fixture(name: string): ArrayBuffer {
+  const bytes = readFileSync(join(__dirname, '__fixtures__', name));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+describe('parseXlsx', () => {
+  beforeAll(() => {
+    // jsdom supplies DOMParser but its Blob has no stream(), which the zip inflation needs
+    vi.stubGlobal('Blob', NodeBlob);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads the first sheet like a CSV, keeping spreadsheet row numbers', async () => {
+    const songs = await parseXlsx(fixture('songs.xlsx'));
+    expect(songs.map(({ row, song }) => ({ row, ...song }))).toEqual([
+      { row: 3, title: 'Neon Nights', style: 'synthwave', lyrics: 'Verse one\nVerse two', instrumental: false, downloadFolder: undefined },
+      { row: 4, title: '', style: 'Style', lyrics: '', instrumental: false, downloadFolder: undefined },
+      { row: 5, title: '東京', style: 'city pop', lyrics: '', instrumental: true, downloadFolder: undefined },
+      { row: 6, title: 'Track 7', style: 'ambient', lyrics: '42', instrumental: false, downloadFolder: undefined },
+    ]);
+  });
+
+  it('rejects files that are not zips or not workbooks', async () => {
+    await expect(parseXlsx(new TextEncoder().encode('title,style\nA,pop\n').buffer)).rejects.toThrow(/no zip directory/);
+    // An empty zip: just the end of central directory record
+    const emptyZip = new Uint8Array(22);
+    new DataView(emptyZip.buffer).setUint32(0, 0x06054b50, true);
+    await expect(parseXlsx(emptyZip.buffer)).rejects.toThrow(/xl\/workbook\.xml is missing/);
+  });
+});
@@ -0,0 +1,151 @@
+import type { ParsedSong } from './file-validator';
+import { songsFromTable, type CsvRecord } from './csv-parser';
+
+interface ZipEntry {
+  /** 0 = stored, 8 = deflate */
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Parse the first worksheet of an .xlsx workbook like a CSV: the first
+ * non-empty row is the header and rows keep their spreadsheet numbers.
+ * The zip is inflated with DecompressionStream and the sheet read with
+ * DOMParser, so no spreadsheet library is needed.
+ */
+export async function parseXlsx(data: ArrayBuffer): Promise<ParsedSong[]> {
+  const entries = readZipDirectory(data);
+  const readXml = async (path: string): Promise<Document | null> => {
+    const entry = entries.get(path);
+    return entry ? parseXml(await readEntry(data, entry), path) : null;
+  };
+
+  const workbook = await readXml('xl/workbook.xml');
+  if (!workbook) throw new Error('Not an .xlsx workbook (xl/workbook.xml is missing)');
+  const sheetPath = firstSheetPath(workbook, await readXml('xl/_rels/workbook.xml.rels'));
+  const sheet = await readXml(sheetPath);
+  if (!sheet) throw new Error(`Worksheet ${sheetPath} is missing from the workbook`);
+
+  const sharedStrings = readSharedStrings(await readXml('xl/sharedStrings.xml'));
+  return songsFromTable(readRows(sheet, sharedStrings));
+}
+
+/** Entries of the zip's central directory by path */
+function readZipDirectory(data: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(data);
+
+  // End of central directory record: 22 bytes, followed by a comment of up to 64 KiB
+  let end = -1;
+  for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not an .xlsx file (no zip directory found)');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt .xlsx file (bad zip directory entry)');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.set(decoder.decode(new Uint8Array(data, offset + 46, nameLength)), {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readEntry(data: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(data);
+  const header = entry.localHeaderOffset;
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const bytes = new Uint8Array(data, start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(bytes);
+  if (entry.method !== 8) throw new Error(`Unsupported .xlsx compression (method ${entry.method})`);
+  const inflated = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(inflated).text();
+}
+
+function parseXml(text: string, path: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error(`Corrupt .xlsx file (${path} is not valid XML)`);
+  return doc;
+}
+
+/** Zip path of the workbook's first sheet, resolved through the workbook relationships */
+function firstSheetPath(workbook: Document, rels: Document | null): string {
+  const relationId = workbook.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const target = relationId && rels
+    ? [...rels.getElementsByTagName('Relationship')].find((r) => r.getAttribute('Id') === relationId)?.getAttribute('Target')
+    : null;
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  // Targets are relative to xl/ unless they start at the package root
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+function readSharedStrings(doc: Document | null): string[] {
+  return doc ? [...doc.getElementsByTagName('si')].map(richText) : [];
+}
+
+/** Text of a string item, joining rich text runs and skipping phonetic hints */
+function richText(item: Element): string {
+  return [...item.getElementsByTagName('t')]
+    .filter((t) => t.parentElement?.tagName !== 'rPh')
+    .map((t) => t.textContent ?? '')
+    .join('')
+    .replace(/_x000D_/g, '')
+    .replace(/\r\n?/g, '\n');
+}
+
+/** Non-empty rows as records, cells placed by their column letters */
+function readRows(sheet: Document, sharedStrings: string[]): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  for (const row of sheet.getElementsByTagName('row')) {
+    const fields: string[] = [];
+    let next = 0;
+    for (const cell of row.getElementsByTagName('c')) {
+      const ref = cell.getAttribute('r');
+      const column = ref ? columnIndex(ref) : next;
+      fields[column] = cellText(cell, sharedStrings);
+      next = column + 1;
+    }
+    const filled = Array.from(fields, (f) => f ?? '');
+    if (filled.some((f) => f.trim())) {
+      records.push({ fields: filled, row: Number(row.getAttribute('r')) || records.length + 1 });
+    }
+  }
+  return records;
+}
+
+function cellText(cell: Element, sharedStrings: string[]): string {
+  const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+  switch (cell.getAttribute('t')) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'inlineStr': {
+      const inline = cell.getElementsByTagName('is')[0];
+      return inline ? richText(inline) : '';
+    }
+    case 'b':
+      return value === '1' ? 'true' : 'false';
+    default:
+      // Numbers, formula results ('str') and errors as Excel stored them
+      return value;
+  }
+}
+
+/** 0-based column of a cell reference such as 'AB12' */
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  return [...letters].reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+}
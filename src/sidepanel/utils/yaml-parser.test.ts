@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml, readYaml } from './yaml-parser';
+
+/** Raw value of a lyrics field holding the given block (songs trim their fields) */
+function lyricsOf(block: string): unknown {
+  return (readYaml(`lyrics: ${block}`) as { lyrics: string }).lyrics;
+}
+
+describe('parseYaml', () => {
+  it('reads a list of "- key:" items, numbering each by its line', () => {
+    const songs = parseYaml([
+      '# My songbook',
+      '- title: One',
+      '  style: pop',
+      '',
+      '-',
+      '  name: Two',
+      '  tags: [lofi, "chill, slow"]',
+      '  instrumental: true',
+    ].join('\n'));
+
+    expect(songs).toEqual([
+      { row: 2, song: { title: 'One', style: 'pop', lyrics: '', instrumental: false, downloadFolder: undefined } },
+      { row: 5, song: { title: 'Two', style: 'lofi, chill, slow', lyrics: '', instrumental: true, downloadFolder: undefined } },
+    ]);
+  });
+
+  it('reads a "songs:" list, indented or at the key\'s indent', () => {
+    const nested = parseYaml('---\nalbum: X\nsongs:\n  - title: A\n    style: pop\n');
+    const flush = parseYaml('songs:\n- title: A\n  style: pop\n');
+    expect(nested.map((s) => [s.song.title, s.row])).toEqual([['A', 4]]);
+    expect(flush.map((s) => [s.song.title, s.row])).toEqual([['A', 2]]);
+  });
+
+  it('strips comments but not apostrophes or quoted #', () => {
+    const [{ song }] = parseYaml([
+      "- title: Don't Stop # working title",
+      "  style: 'rock''n''roll' # quoted",
+      '  lyrics: "#1 hit" # after a quote',
+      '  folder: Rock#1 # not part of the name',
+    ].join('\n'));
+    expect(song).toMatchObject({ title: "Don't Stop", style: "rock'n'roll", lyrics: '#1 hit', downloadFolder: 'Rock#1' });
+  });
+
+  describe('block scalars', () => {
+    const body = '\n    Line one\n      indented\n\n    # not a comment\n\n';
+
+    it('keeps line breaks in literal (|) blocks', () => {
+      expect(lyricsOf(`|${body}folder: X`)).toBe('Line one\n  indented\n\n# not a comment\n');
+    });
+
+    it('folds lines into spaces in folded (>) blocks, blank lines becoming breaks', () => {
+      expect(lyricsOf('>\n    a\n    b\n\n    c\n')).toBe('a b\nc\n');
+    });
+
+    it('applies strip (-), clip and keep (+) chomping', () => {
+      expect(lyricsOf(`|-${body}`)).toBe('Line one\n  indented\n\n# not a comment');
+      expect(lyricsOf(`|${body}`)).toBe('Line one\n  indented\n\n# not a comment\n');
+      expect(lyricsOf(`|+${body}`)).toBe('Line one\n  indented\n\n# not a comment\n\n');
+      expect(lyricsOf('>+\n    a\n    b\n\nfolder: X')).toBe('a b\n\n');
+    });
+
+    it('ends at a line indented no deeper than its key', () => {
+      const [song] = parseYaml('- title: A\n  lyrics: |\n    la\n  style: pop\n- title: B\n  style: rock\n');
+      expect(song.song).toMatchObject({ lyrics: 'la', style: 'pop' });
+    });
+  });
+
+  describe('errors', () => {
+    it.each([
+      ['- title: A\n\tstyle: pop', 'Tabs are not allowed for indentation', 2],
+      ['- title: A\n  style: "pop', 'Unterminated double-quoted string', 2],
+      ["- title: A\n  style: 'pop", 'Unterminated single-quoted string', 2],
+      ['- title: A\n  style: [pop', 'Unterminated flow list', 2],
+      ['- title: A\n  style: {a: b}', 'Flow mappings ({…}) are not supported', 2],
+      ['- title: A\n  lyrics: |x\n    la', 'Malformed block scalar header', 2],
+      ['- title: A\n  style: pop\n    lyrics: la', 'Unexpected indentation or content', 3],
+      ['- title: A\n  style\n', 'Expected "key: value"', 2],
+      ['- title: A\n  style: pop\n- just text', 'Each song must be a mapping (title: …, style: …, lyrics: …)', 3],
+    ])('%j', (text, message, row) => {
+      expect(() => parseYaml(text)).toThrow(expect.objectContaining({ message, row }));
+    });
+
+    it('requires a list of songs', () => {
+      expect(() => parseYaml('title: A\nstyle: pop')).toThrow(/must be a list of songs/);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import type { ParsedSong } from './file-validator';
+import { importError, songFromFields } from './song-fields';
+import { expandTemplate } from './song-template';
+
+export type YamlValue = string | boolean | null | YamlValue[] | YamlMap;
+
+interface YamlMap {
+  [key: string]: YamlValue;
+}
+
+interface Line {
+  indent: number;
+  text: string;
+  /** 1-based line number in the file */
+  number: number;
+}
+
+/**
+ * Parse a YAML songbook: a list of songs, or a mapping with a 'songs:' list.
+ * Keys are matched like CSV headers (title/name, style/tags, lyrics/prompt,
+ * folder, …) and a list of tags is joined with ', '. Rows are the line
+ * numbers of the list items. Items with a 'matrix' map or 'repeat' are
+ * expanded as templates.
+ */
+export function parseYaml(text: string): ParsedSong[] {
+  const { root, itemLines } = parseDocument(text);
+  const list = Array.isArray(root) ? root : isMap(root) && Array.isArray(root.songs) ? root.songs : null;
+  if (!list) throw new Error('YAML must be a list of songs or have a "songs:" list');
+
+  const rows = itemLines.get(list) ?? [];
+  return list.flatMap((item, i) => {
+    if (!isMap(item)) throw importError('Each song must be a mapping (title: …, style: …, lyrics: …)', rows[i] ?? 1);
+    return expandTemplate({ row: rows[i] ?? 1, song: songFromFields(item) }, item);
+  });
+}
+
+/** The document as plain values: nested lists and mappings of strings, booleans and null */
+export function readYaml(text: string): YamlValue {
+  return parseDocument(text).root;
+}
+
+function isMap(value: YamlValue): value is YamlMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The block-style subset songbooks need: nested mappings and lists, plain and
+ * quoted scalars, flow lists ([a, b]), literal (|) and folded (>) block
+ * scalars, and comments. Anchors, tags, flow mappings and multiple documents
+ * are not supported.
+ */
+function parseDocument(text: string): { root: YamlValue; itemLines: WeakMap<YamlValue[], number[]> } {
+  const lines: Line[] = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).map((raw, i) => {
+    if (/^ *\t/.test(raw)) throw importError('Tabs are not allowed for indentation', i + 1);
+    const trimmed = raw.trimStart();
+    return { indent: raw.length - trimmed.length, text: trimmed.trimEnd(), number: i + 1 };
+  });
+  // split() leaves an empty last line when the file ends with a line break
+  const endsWithBreak = /[\r\n]$/.test(text);
+  const itemLines = new WeakMap<YamlValue[], number[]>();
+  let pos = 0;
+
+  const isContent = (line: Line) =>
+    line.text !== '' && !line.text.startsWith('#') && !(line.indent === 0 && /^(---|\.\.\.)(\s|$)/.test(line.text));
+
+  /** Next line that holds content, skipping blank lines, comments and document markers */
+  const peek = (): Line | undefined => {
+    while (pos < lines.length && !isContent(lines[pos])) pos++;
+    return lines[pos];
+  };
+
+  const parseNode = (minIndent: number): YamlValue => {
+    const line = peek();
+    if (!line || line.indent < minIndent) return null;
+    if (isListItem(line.text)) return parseList(line.indent);
+    if (splitKey(line.text)) return parseMap(line.indent);
+    pos++;
+    return parseScalar(line.text, line.number);
+  };
+
+  const parseList = (indent: number): YamlValue[] => {
+    const items: YamlValue[] = [];
+    const numbers: number[] = [];
+    for (let line = peek(); line && line.indent === indent && isListItem(line.text); line = peek()) {
+      numbers.push(line.number);
+      const rest = line.text.slice(1).trimStart();
+      if (!rest || rest.startsWith('#')) {
+        pos++;
+        items.push(parseNode(indent + 1));
+      } else {
+        // '- title: x' continues as a mapping indented to where 'title' starts
+        lines[pos] = { ...line, indent: line.indent + line.text.length - rest.length, text: rest };
+        items.push(parseNode(lines[pos].indent));
+      }
+    }
+    itemLines.set(items, numbers);
+    return items;
+  };
+
+  const parseMap = (indent: number): YamlMap => {
+    const map: YamlMap = {};
+    for (let line = peek(); line && line.indent === indent; line = peek()) {
+      const entry = splitKey(line.text);
+      if (!entry) throw importError('Expected "key: value"', line.number);
+      pos++;
+      const [key, rest] = entry;
+      if (/^[|>]/.test(rest)) {
+        map[key] = readBlockScalar(rest, indent, line.number);
+      } else if (stripComment(rest).trim()) {
+        map[key] = parseScalar(rest, line.number);
+      } else {
+        const next = peek();
+        // A list may sit at the same indent as its key
+        map[key] = next && next.indent === indent && isListItem(next.text) ? parseList(indent) : parseNode(indent + 1);
+      }
+    }
+    return map;
+  };
+
+  const readBlockScalar = (header: string, parentIndent: number, lineNumber: number): string => {
+    const match = header.match(/^([|>])([+-]?)\s*(#.*)?$/);
+    if (!match) throw importError('Malformed block scalar header', lineNumber);
+    const [, style, chomp] = match;
+
+    // Raw lines, so '#' and '---' inside lyrics are kept
+    const body: string[] = [];
+    let contentIndent: number | null = null;
+    while (pos < lines.length) {
+      const line = lines[pos];
+      if (line.text === '') {
+        body.push('');
+        pos++;
+        continue;
+      }
+      if (line.indent <= parentIndent || (contentIndent !== null && line.indent < contentIndent)) break;
+      contentIndent ??= line.indent;
+      body.push(' '.repeat(line.indent - contentIndent) + line.text);
+      pos++;
+    }
+    let trailing = 0;
+    for (; body.length > 0 && body[body.length - 1] === ''; trailing++) body.pop();
+    if (pos === lines.length && endsWithBreak && trailing > 0) trailing--;
+
+    // Strip (-) drops the final line break, clip (default) keeps one, keep (+) keeps trailing blank lines too
+    const value = style === '|' ? body.join('\n') : foldLines(body);
+    if (chomp === '-' || !value) return value;
+    return `${value}\n${chomp === '+' ? '\n'.repeat(trailing) : ''}`;
+  };
+
+  const root = parseNode(0);
+  const leftover = peek();
+  if (leftover) throw importError('Unexpected indentation or content', leftover.number);
+  return { root, itemLines };
+}
+
+function isListItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/** [key, rest of the line] when the line is a 'key: value' entry */
+function splitKey(text: string): [string, string] | null {
+  const quoted = text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*:(?:\s+(.*))?$/);
+  if (quoted) return [String(parseScalar(quoted[1], 0)), quoted[2] ?? ''];
+  const plain = text.match(/^([^\s#'"[\]{},][^#]*?)\s*:(?:\s+(.*))?$/);
+  return plain ? [plain[1], plain[2] ?? ''] : null;
+}
+
+function parseScalar(raw: string, lineNumber: number): YamlValue {
+  const text = stripComment(raw).trim();
+  if (text.startsWith('"')) {
+    if (!/^"(?:[^"\\]|\\.)*"$/.test(text)) throw importError('Unterminated double-quoted string', lineNumber);
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) throw importError('Unterminated single-quoted string', lineNumber);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) throw importError('Unterminated flow list', lineNumber);
+    const inner = text.slice(1, -1).trim();
+    return inner ? splitFlowItems(inner).map((item) => parseScalar(item, lineNumber)) : [];
+  }
+  if (text.startsWith('{')) throw importError('Flow mappings ({…}) are not supported', lineNumber);
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  if (text === '' || text === '~' || /^null$/i.test(text)) return null;
+  return text;
+}
+
+/** Drop a trailing ' # comment' that is not inside quotes */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if ((ch === '"' || ch === "'") && (i === 0 || /[\s[,]/.test(text[i - 1]))) {
+      // Only a quote opening a value counts; the apostrophe in Don't does not
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+/** Items of a flow list body, split on commas outside quotes */
+function splitFlowItems(inner: string): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const ch = inner[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ',') {
+      items.push(inner.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(inner.slice(start));
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+/** Folded (>) block: line breaks become spaces, blank lines become line breaks */
+function foldLines(body: string[]): string {
+  return body.reduce((out, line, i) => {
+    if (i === 0) return line;
+    if (line === '') return `${out}\n`;
+    return body[i - 1] === '' ? `${out}${line}` : `${out} ${line}`;
+  }, '');
+}
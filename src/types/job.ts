@@ -15,15 +15,100 @@ export type JobStatus =
   | 'downloading'
   | 'completed'
   | 'failed'
-  | 'skipped';
+  | 'skipped'
+  | 'aborted'
+  | 'timedOut';
+
+/** Failure class of a job attempt; drives the retry policy */
+export type JobErrorCode =
+  | 'selector-not-found'
+  | 'intercept-timeout'
+  | 'auth-missing'
+  | 'rate-limited'
+  | 'moderation-rejected'
+  | 'out-of-credits'
+  | 'polling-timeout'
+  | 'download-failed'
+  | 'unknown';
+
+/** Once files exist, the clip status is derived from them: 'downloaded' when every requested format is saved */
+export type ClipStatus = 'generating' | 'ready' | 'downloading' | 'interrupted' | 'downloaded' | 'failed';
+
+export type DownloadFormat = 'mp3' | 'wav' | 'mp4';
+
+/** 'downloaded' means chrome.downloads reported the file complete; 'skipped' means the clip has no such format (no video) */
+export type ClipFileStatus = 'pending' | 'downloading' | 'interrupted' | 'downloaded' | 'failed' | 'skipped';
+
+/** One saved format of a clip */
+export interface ClipFile {
+  status: ClipFileStatus;
+  /** chrome.downloads id of the file */
+  downloadId?: number;
+  /** Automatic retries used after the download was interrupted */
+  downloadRetries?: number;
+  /** Requested path (relative to Downloads) until the file completes, then the saved path */
+  filePath?: string;
+  error?: string;
+}
+
+/** One generated clip of a job (Suno creates two per Create click) */
+export interface JobClip {
+  id: string;
+  status: ClipStatus;
+  audioUrl?: string;
+  videoUrl?: string;
+  imageUrl?: string;
+  /** Display name of the Suno creator */
+  artist?: string;
+  model?: string;
+  /** Style tags as Suno recorded them */
+  tags?: string;
+  /** ISO timestamp from Suno */
+  createdAt?: string;
+  /** One entry per requested format */
+  files?: Partial<Record<DownloadFormat, ClipFile>>;
+  /** Seconds */
+  duration?: number;
+  error?: string;
+  errorCode?: JobErrorCode;
+}
+
+/** Statuses a job passes through while an attempt is running */
+export type AttemptPhase = 'filling' | 'creating' | 'waiting' | 'downloading';
+
+export interface PhaseTiming {
+  startedAt: number;
+  endedAt?: number;
+}
+
+/** One run of a job, from entering its first phase to its outcome */
+export interface JobAttempt {
+  /** 1-based, matches the index in Job.attempts + 1 */
+  number: number;
+  startedAt: number;
+  endedAt?: number;
+  phases: Partial<Record<AttemptPhase, PhaseTiming>>;
+  songIds?: string[];
+  errorCode?: JobErrorCode;
+  error?: string;
+  /** 'retried' when the attempt failed and the job went back to pending */
+  outcome?: Exclude<JobStatus, 'pending' | AttemptPhase> | 'retried';
+}
 
 export interface Job {
   id: string;
   input: SongInput;
   status: JobStatus;
   error?: string;
+  errorCode?: JobErrorCode;
   songIds?: string[];
+  clips?: JobClip[];
   retryCount: number;
+  /** Pending retries are not picked up before this timestamp (backoff) */
+  retryAt?: number;
+  attempts: JobAttempt[];
+  /** Higher runs first; ties keep queue order */
+  priority: number;
   createdAt: number;
   updatedAt: number;
   notionPageId?: string;
@@ -38,6 +123,8 @@ export interface LibrarySong {
 export interface QueueState {
   jobs: Job[];
   running: boolean;
+  /** Paused: no new triggers, but in-flight jobs keep monitoring/downloading */
+  paused: boolean;
   activeJobIds: string[];
   library: LibrarySong[];
 }
@@ -1,4 +1,4 @@
-import type { Job, JobStatus, QueueState, SongInput, LibrarySong } from './job';
+import type { ClipFile, DownloadFormat, Job, JobClip, JobErrorCode, JobStatus, QueueState, SongInput, LibrarySong } from './job';
 export type { SongInput, LibrarySong } from './job';
 
 // Side Panel → Background
@@ -10,11 +10,69 @@ export interface StopQueueMessage {
   type: 'STOP_QUEUE';
 }
 
+export interface PauseQueueMessage {
+  type: 'PAUSE_QUEUE';
+}
+
+export interface ResumeQueueMessage {
+  type: 'RESUME_QUEUE';
+}
+
 export interface AddJobsMessage {
   type: 'ADD_JOBS';
   payload: SongInput[];
 }
 
+export interface ReorderJobsMessage {
+  type: 'REORDER_JOBS';
+  payload: {
+    /** Job IDs in their new order; jobs not listed keep their relative order after them */
+    jobIds: string[];
+    /** Job the user moved; its priority is adjusted so it runs where it was placed */
+    movedJobId?: string;
+  };
+}
+
+export interface SetJobPriorityMessage {
+  type: 'SET_JOB_PRIORITY';
+  payload: {
+    jobId: string;
+    priority: number;
+  };
+}
+
+export interface UpdateJobMessage {
+  type: 'UPDATE_JOB';
+  payload: {
+    jobId: string;
+    input: Partial<SongInput>;
+  };
+}
+
+export interface DeleteJobsMessage {
+  type: 'DELETE_JOBS';
+  payload: {
+    jobIds: string[];
+  };
+}
+
+export interface DuplicateJobMessage {
+  type: 'DUPLICATE_JOB';
+  payload: {
+    jobId: string;
+  };
+}
+
+export type BulkJobAction = 'retryFailed' | 'skip' | 'rerunCompleted' | 'remove';
+
+export interface BulkJobActionMessage {
+  type: 'BULK_JOB_ACTION';
+  payload: {
+    action: BulkJobAction;
+    jobIds?: string[];
+  };
+}
+
 export interface ClearQueueMessage {
   type: 'CLEAR_QUEUE';
 }
@@ -61,6 +119,7 @@ export interface MonitorJobMessage {
   };
 }
 
+/** Abort one job, or without a payload the whole API generation run (sent when the queue stops) */
 export interface AbortJobMessage {
   type: 'ABORT_JOB';
   payload?: {
@@ -79,10 +138,22 @@ export interface JobProgressMessage {
     jobId: string;
     status: JobStatus;
     error?: string;
+    errorCode?: JobErrorCode;
     songIds?: string[];
   };
 }
 
+export interface ClipProgressMessage {
+  type: 'CLIP_PROGRESS';
+  payload: {
+    jobId: string;
+    clipId: string;
+    updates: Partial<Omit<JobClip, 'id' | 'files'>>;
+    /** Per-format updates, merged into the clip's existing files */
+    files?: Partial<Record<DownloadFormat, Partial<ClipFile>>>;
+  };
+}
+
 export interface PageStatusMessage {
   type: 'PAGE_STATUS';
   payload: {
@@ -101,17 +172,88 @@ export interface DownloadReadyMessage {
 export interface DownloadWavFileMessage {
   type: 'DOWNLOAD_WAV_FILE';
   url: string;
+  /** Fallback name; queue jobs are named from Settings.filenameTemplate */
   filename: string;
+  title?: string;
   folder?: string;
   duration?: string;
+  jobId?: string;
+  clipId?: string;
+  format?: DownloadFormat;
+}
+
+/** A text file generated in the page (e.g. .lrc) to save next to a clip's audio */
+export interface SaveSidecarMessage {
+  type: 'SAVE_SIDECAR';
+  payload: {
+    jobId?: string;
+    clipId: string;
+    title?: string;
+    folder?: string;
+    extension: string;
+    mime: string;
+    content: string;
+  };
+}
+
+export interface ScheduleSettings {
+  enabled: boolean;
+  /** Local time of day the queue starts, 'HH:MM' */
+  startTime: string;
+  /** Optional local time of day the queue pauses, 'HH:MM' */
+  endTime?: string;
+  /** Run the window every day instead of once */
+  repeatDaily: boolean;
+}
+
+export interface Id3Settings {
+  /** Embed ID3v2.4 tags (title, artist, album, genre, lyrics, cover, clip ID) into MP3 downloads */
+  enabled: boolean;
+  /** Overrides the clip's creator name */
+  artist?: string;
+  /** Overrides the job's download folder name */
+  album?: string;
+}
+
+/** Extra files saved next to each clip's audio, sharing its name */
+export interface SidecarSettings {
+  /** Cover image (image_large_url) */
+  cover: boolean;
+  /** Lyrics as .txt */
+  lyrics: boolean;
+  /** Clip ID, job input, model, tags, duration, created time and Suno URL as .json */
+  metadata: boolean;
+  /** Time-synced lyrics as .lrc (skipped when Suno returns no word alignment) */
+  lrc: boolean;
+  /** Per-word <mm:ss.xx> stamps in the .lrc (enhanced LRC) */
+  enhancedLrc: boolean;
+}
+
+/** What to do when the chosen folder already has a file of the same name */
+export type ConflictPolicy = 'uniquify' | 'overwrite' | 'skip';
+
+export interface OutputDirectorySettings {
+  /** Write files into the folder picked in the side panel instead of through chrome.downloads */
+  enabled: boolean;
+  onConflict: ConflictPolicy;
 }
 
 export interface Settings {
   delayBetweenSongs: number;
   generationTimeout: number;
   maxRetries: number;
+  maxConcurrentJobs: number;
   downloadPath: string;
-  downloadFormat: 'mp3' | 'wav';
+  /** Formats saved for every clip; MP4 only when the clip has a video */
+  downloadFormats: DownloadFormat[];
+  /** File name for each clip, e.g. '{title} ({index})'; the extension is added automatically */
+  filenameTemplate: string;
+  /** Folder for each clip, e.g. '{downloadPath}/{date}/{style}'; nested and relative to Downloads */
+  folderTemplate: string;
+  id3: Id3Settings;
+  sidecars: SidecarSettings;
+  outputDirectory: OutputDirectorySettings;
+  schedule: ScheduleSettings;
   notionApiKey?: string;
   notionDatabaseId?: string;
 }
@@ -151,7 +293,15 @@ export interface FetchNotionJobsMessage {
 export type PanelToBgMessage =
   | StartQueueMessage
   | StopQueueMessage
+  | PauseQueueMessage
+  | ResumeQueueMessage
   | AddJobsMessage
+  | ReorderJobsMessage
+  | SetJobPriorityMessage
+  | UpdateJobMessage
+  | DeleteJobsMessage
+  | DuplicateJobMessage
+  | BulkJobActionMessage
   | ClearQueueMessage
   | GetStateMessage
   | GetStateMessage
@@ -192,6 +342,8 @@ export interface GenerateViaApiMessage {
   type: 'GENERATE_VIA_API';
   payload: {
     jobs: any[];
+    /** Per-clip polling limit in ms; the background fills it from Settings.generationTimeout */
+    generationTimeout?: number;
   };
 }
 
@@ -206,9 +358,11 @@ export interface ProxyApiRequestMessage {
 
 export type ContentToBgMessage =
   | JobProgressMessage
+  | ClipProgressMessage
   | PageStatusMessage
   | DownloadReadyMessage
   | DownloadWavFileMessage
+  | SaveSidecarMessage
   | ExecInPageMessage
   | HeartbeatMessage
   | ProxyApiRequestMessage;
@@ -0,0 +1,74 @@
+/**
+ * Output folder picked in the side panel via the File System Access API.
+ * The handle is kept in IndexedDB (chrome.storage cannot hold it) so the
+ * service worker can write into the folder after the panel is closed.
+ */
+
+const DB_NAME = 'sbg-output-directory';
+const STORE_NAME = 'handles';
+const HANDLE_KEY = 'output';
+
+/** Permission methods Chrome implements but lib.dom does not declare yet */
+interface PermissionedHandle extends FileSystemDirectoryHandle {
+  queryPermission(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+}
+
+export async function loadDirectoryHandle(): Promise<FileSystemDirectoryHandle | null> {
+  const handle = await withStore('readonly', (store) => store.get(HANDLE_KEY));
+  return (handle as FileSystemDirectoryHandle | undefined) ?? null;
+}
+
+export async function saveDirectoryHandle(handle: FileSystemDirectoryHandle): Promise<void> {
+  await withStore('readwrite', (store) => store.put(handle, HANDLE_KEY));
+}
+
+export async function clearDirectoryHandle(): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(HANDLE_KEY));
+}
+
+/**
+ * Read/write permission of the handle. Chrome drops it when the browser
+ * restarts unless the user chose to allow it on every visit; asking again
+ * (request = true) needs a user gesture, so only the side panel can do it.
+ */
+export async function directoryPermission(handle: FileSystemDirectoryHandle, request = false): Promise<PermissionState> {
+  const permissioned = handle as PermissionedHandle;
+  const current = await permissioned.queryPermission({ mode: 'readwrite' });
+  if (current === 'granted' || !request) return current;
+  return permissioned.requestPermission({ mode: 'readwrite' });
+}
+
+/** Ask again for access to the saved folder, if any; must run inside a user gesture */
+export async function regrantDirectoryAccess(): Promise<PermissionState | null> {
+  const handle = await loadDirectoryHandle();
+  return handle ? directoryPermission(handle, true) : null;
+}
+
+/** Let the user pick the output folder; resolves null when the picker is dismissed */
+export async function pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  const pickerWindow = window as unknown as {
+    showDirectoryPicker(options: { id?: string; mode: 'read' | 'readwrite' }): Promise<FileSystemDirectoryHandle>;
+  };
+  try {
+    return await pickerWindow.showDirectoryPicker({ id: 'sbg-output', mode: 'readwrite' });
+  } catch (e) {
+    if ((e as DOMException).name === 'AbortError') return null;
+    throw e;
+  }
+}
+
+function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(STORE_NAME);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const db = open.result;
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.transaction?.addEventListener('complete', () => db.close());
+    };
+  });
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_FILENAME_LENGTH,
+  MAX_FOLDER_LENGTH,
+  renderFilename,
+  renderFolder,
+  sanitizeSegment,
+  toSafeRelativePath,
+  validateFolderPath,
+  type FilenameTokens,
+} from './download-path';
+
+const tokens: FilenameTokens = {
+  title: 'My Song',
+  index: 2,
+  clipId: 'abcdef12-3456-7890',
+  style: 'lo-fi',
+  jobIndex: 7,
+  format: 'mp3',
+  date: new Date(2024, 0, 5),
+};
+
+describe('renderFilename', () => {
+  it('fills every token', () => {
+    expect(renderFilename('{jobIndex} {title} {index} {shortId} {style} {date} {format}', tokens))
+      .toBe('7 My Song 2 abcdef12 lo-fi 2024-01-05 mp3.mp3');
+    expect(renderFilename('{clipId}', tokens)).toBe('abcdef12-3456-7890.mp3');
+  });
+
+  it('keeps unknown tokens literally', () => {
+    expect(renderFilename('{title} {artist}', tokens)).toBe('My Song {artist}.mp3');
+  });
+
+  it('appends the clip index when the template cannot tell clips apart', () => {
+    expect(renderFilename('{title}', tokens, 2)).toBe('My Song (2).mp3');
+    expect(renderFilename('{title} {shortId}', tokens, 2)).toBe('My Song abcdef12.mp3');
+    expect(renderFilename('{title}', tokens, 1)).toBe('My Song.mp3');
+  });
+
+  it('sanitizes values so a title cannot add folders', () => {
+    expect(renderFilename('{title}', { ...tokens, title: 'AC/DC: "Live"?' })).toBe('AC_DC_ _Live__.mp3');
+  });
+
+  it('shortens long names', () => {
+    const name = renderFilename('{title}', { ...tokens, title: 'a'.repeat(300) });
+    expect(name).toBe(`${'a'.repeat(MAX_FILENAME_LENGTH)}.mp3`);
+  });
+
+  it('falls back to the clip id when nothing is left', () => {
+    expect(renderFilename('{title}', { ...tokens, title: ' ... ' })).toBe('suno-abcdef12.mp3');
+    expect(renderFilename('', { ...tokens, clipId: '' })).toBe('suno-song.mp3');
+  });
+});
+
+describe('sanitizeSegment', () => {
+  it('replaces invalid characters and collapses whitespace', () => {
+    expect(sanitizeSegment('a<b>c|d*e   f\u0001')).toBe('a_b_c_d_e f_');
+  });
+
+  it('trims trailing dots and spaces of a whole segment', () => {
+    expect(sanitizeSegment('  name. . ')).toBe('name');
+    expect(sanitizeSegment('  name. ', false)).toBe(' name. ');
+  });
+
+  it('prefixes reserved device names', () => {
+    expect(sanitizeSegment('CON')).toBe('_CON');
+    expect(sanitizeSegment('lpt1.txt')).toBe('_lpt1.txt');
+    expect(sanitizeSegment('console')).toBe('console');
+  });
+});
+
+describe('renderFolder', () => {
+  const folderTokens = { downloadPath: 'Suno', folder: 'Album/Disc 1', title: 'A/B', style: 'pop', jobIndex: 3, date: new Date(2024, 0, 5) };
+
+  it('lets downloadPath and folder nest but keeps other tokens in one folder name', () => {
+    expect(renderFolder('{downloadPath}/{folder}/{title}', folderTokens)).toBe('Suno/Album/Disc 1/A_B');
+    expect(renderFolder('{date}/{jobIndex} {style}/{other}', folderTokens)).toBe('2024-01-05/3 pop/{other}');
+  });
+
+  it('drops empty folders', () => {
+    expect(renderFolder('{downloadPath}/{folder}', { ...folderTokens, folder: '' })).toBe('Suno');
+  });
+});
+
+describe('toSafeRelativePath', () => {
+  it('cannot escape the Downloads folder', () => {
+    expect(toSafeRelativePath('/etc/../x')).toBe('etc/x');
+    expect(toSafeRelativePath('C:\\Music\\.\\Suno')).toBe('C_/Music/Suno');
+    expect(toSafeRelativePath('..')).toBe('');
+  });
+
+  it('sanitizes and shortens each folder name', () => {
+    expect(toSafeRelativePath('a?b / nul /x.')).toBe('a_b/_nul/x');
+    expect(toSafeRelativePath('f'.repeat(100))).toBe('f'.repeat(MAX_FOLDER_LENGTH));
+  });
+});
+
+describe('validateFolderPath', () => {
+  it.each(['/Music', '\\Music', '~/Music', 'C:Music', 'D:\\Music'])('rejects absolute path %s', (path) => {
+    expect(validateFolderPath(path)).toMatch(/relative/);
+  });
+
+  it('rejects parent folders', () => {
+    expect(validateFolderPath('Suno/../..')).toMatch(/'\.\.'/);
+  });
+
+  it('accepts relative paths', () => {
+    expect(validateFolderPath('Suno/{folder}/..x')).toBeNull();
+    expect(validateFolderPath('')).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Download naming shared by the background (which saves files) and the side
+ * panel (which previews the templates in Settings).
+ */
+
+export interface FilenameTokens {
+  title: string;
+  /** 1-based position of the clip within its job */
+  index: number;
+  clipId: string;
+  style: string;
+  /** 1-based position of the job in the queue (0 when it is not a queue job) */
+  jobIndex: number;
+  /** 'mp3' | 'wav' */
+  format: string;
+  date?: Date;
+}
+
+export interface FolderTokens {
+  /** Settings.downloadPath; may contain '/' for nesting */
+  downloadPath: string;
+  /** The job's downloadFolder; may contain '/' for nesting */
+  folder: string;
+  title: string;
+  style: string;
+  jobIndex: number;
+  date?: Date;
+}
+
+export const FILENAME_TOKENS = ['title', 'index', 'clipId', 'shortId', 'style', 'date', 'jobIndex', 'format'] as const;
+export const FOLDER_TOKENS = ['downloadPath', 'folder', 'title', 'style', 'date', 'jobIndex'] as const;
+
+/** Longest file name (without extension) we hand to chrome.downloads */
+export const MAX_FILENAME_LENGTH = 120;
+
+/** Longest single folder name in a download path */
+export const MAX_FOLDER_LENGTH = 64;
+
+// Characters Windows, macOS or Chrome reject in a path segment
+const INVALID_CHARS = /[<>:"/\\|?*\u0000-\u001F]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+/**
+ * Render a filename template into a safe file name with extension. Tokens the
+ * template does not know are kept literally. When the template cannot tell the
+ * clips of a job apart, the clip index is appended so both files survive.
+ */
+export function renderFilename(template: string, tokens: FilenameTokens, clipCount = 1): string {
+  let base = template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = tokenValue(name, tokens);
+    return value === null ? match : sanitizeSegment(value, false);
+  });
+
+  if (clipCount > 1 && !/\{(index|clipId|shortId)\}/.test(template)) {
+    base = `${base} (${tokens.index})`;
+  }
+
+  base = sanitizeSegment(base, true);
+  if (base.length > MAX_FILENAME_LENGTH) {
+    base = sanitizeSegment(base.substring(0, MAX_FILENAME_LENGTH), true);
+  }
+  if (!base) base = `suno-${tokens.clipId.substring(0, 8) || 'song'}`;
+
+  return `${base}.${tokens.format}`;
+}
+
+/**
+ * Render a folder template into a relative path below the Downloads folder.
+ * The downloadPath and folder tokens may nest ('Album/Disc1'); every other
+ * token stays inside a single folder name. See toSafeRelativePath for what
+ * is stripped.
+ */
+export function renderFolder(template: string, tokens: FolderTokens): string {
+  const expanded = template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    switch (name) {
+      case 'downloadPath': return tokens.downloadPath;
+      case 'folder': return tokens.folder;
+      case 'title': return sanitizeSegment(tokens.title, false);
+      case 'style': return sanitizeSegment(tokens.style, false);
+      case 'date': return formatDate(tokens.date ?? new Date());
+      case 'jobIndex': return String(tokens.jobIndex);
+      default: return match;
+    }
+  });
+  return toSafeRelativePath(expanded);
+}
+
+/**
+ * Normalize a user-supplied path into '/'-joined folder names that cannot
+ * escape the Downloads folder: leading slashes and drive letters are dropped,
+ * '.' and '..' segments are removed and each name is sanitized and shortened.
+ */
+export function toSafeRelativePath(path: string): string {
+  return path
+    .split(/[/\\]+/)
+    .map((segment) => {
+      if (segment.trim() === '..' || segment.trim() === '.') return '';
+      return sanitizeSegment(sanitizeSegment(segment).substring(0, MAX_FOLDER_LENGTH));
+    })
+    .filter((segment) => segment.length > 0)
+    .join('/');
+}
+
+/** Returns why a user-entered folder path is unsafe, or null if it can be used */
+export function validateFolderPath(path: string): string | null {
+  const trimmed = path.trim();
+  if (/^([a-zA-Z]:|[/\\~])/.test(trimmed)) return 'download folder must be relative (no leading / or drive letter)';
+  if (trimmed.split(/[/\\]/).some((segment) => segment.trim() === '..')) return "download folder cannot contain '..'";
+  return null;
+}
+
+/**
+ * Make one path segment safe: invalid characters become '_', whitespace is
+ * collapsed and, for a whole segment, trailing dots/spaces and reserved
+ * device names (CON, NUL, COM1...) are fixed up.
+ */
+export function sanitizeSegment(value: string, whole = true): string {
+  let segment = value.replace(INVALID_CHARS, '_').replace(/\s+/g, ' ');
+  if (!whole) return segment;
+
+  segment = segment.trim().replace(/[. ]+$/, '');
+  if (RESERVED_NAMES.test(segment)) segment = `_${segment}`;
+  return segment;
+}
+
+function tokenValue(name: string, tokens: FilenameTokens): string | null {
+  switch (name) {
+    case 'title': return tokens.title;
+    case 'index': return String(tokens.index);
+    case 'clipId': return tokens.clipId;
+    case 'shortId': return tokens.clipId.substring(0, 8);
+    case 'style': return tokens.style;
+    case 'date': return formatDate(tokens.date ?? new Date());
+    case 'jobIndex': return String(tokens.jobIndex);
+    case 'format': return tokens.format;
+    default: return null;
+  }
+}
+
+/** Local date as YYYY-MM-DD */
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}